@@ -0,0 +1,174 @@
+import { WebSocketServer } from 'ws';
+
+const SAMPLE_RATE = 24000;
+const round = (value) => Math.round(value * 100) / 100;
+
+// Turns the scripted utterances into word/final messages stamped with the
+// audio time (seconds of received audio) at which they should be sent.
+function* timeline(utterances, { wordIntervalSec, pauseSec, loop, whisper }, startSec = 0) {
+  let time = startSec + 0.5;
+  let index = 0;
+
+  while (utterances.length > 0 && (loop || index < utterances.length)) {
+    const utterance = utterances[index % utterances.length];
+    const words = utterance.text.split(/\s+/).filter(Boolean);
+    const timed = [];
+
+    for (const word of words) {
+      const start = round(time);
+      const previous = timed[timed.length - 1];
+      if (previous) {
+        yield { at: start, message: { type: 'word', ...previous } };
+      }
+      const entry = { word, start_time: start, end_time: round(time + wordIntervalSec * 0.8) };
+      timed.push(entry);
+      yield { at: start, message: { type: 'word', word, start_time: start, end_time: null } };
+      time += wordIntervalSec;
+    }
+
+    const last = timed[timed.length - 1];
+    if (last) {
+      yield { at: round(time), message: { type: 'word', ...last } };
+    }
+    yield { at: round(time), message: { type: 'final', text: utterance.text, words: timed } };
+
+    if (whisper) {
+      yield {
+        at: round(time),
+        whisper: {
+          sentence_id: `mock-${index}-${Date.now()}`,
+          original_text: utterance.text,
+          corrected_text: utterance.corrected ?? utterance.text,
+          start_time: timed[0]?.start_time ?? 0,
+          end_time: last?.end_time ?? 0,
+        },
+      };
+    }
+
+    time += pauseSec;
+    index += 1;
+  }
+}
+
+/**
+ * Stand-in for `ears server start`. Speaks the protocol in WEBSOCKET_STT.md:
+ * binary f32 frames in, word/final (and optional whisper_*) JSON out. The
+ * transcript is scripted; it advances with the amount of audio received, so
+ * timestamps line up with the client's recording. Only the first client to
+ * send audio drives the transcript; others get "server busy" if they try to
+ * stream, and every connected client receives the messages.
+ */
+export function startMockEars({ port, scenario, log = console.log }) {
+  const options = {
+    wordIntervalSec: 0.35,
+    pauseSec: 1.2,
+    loop: true,
+    whisper: false,
+    utterances: [],
+    ...scenario,
+  };
+  const server = new WebSocketServer({ port });
+  const clients = new Set();
+  let streamer = null;
+
+  const broadcast = (message) => {
+    const data = JSON.stringify(message);
+    for (const client of clients) {
+      if (client.readyState === client.OPEN) {
+        client.send(data);
+      }
+    }
+  };
+
+  const createSession = (lang, samples = 0) => {
+    const utterances = options.utterances.filter(u => !u.lang || u.lang === lang);
+    const events = timeline(utterances.length > 0 ? utterances : options.utterances, options, samples / SAMPLE_RATE);
+    return { samples, events, next: events.next() };
+  };
+
+  const advance = (session, samples) => {
+    session.samples += samples;
+    const audioTime = session.samples / SAMPLE_RATE;
+
+    while (!session.next.done && session.next.value.at <= audioTime) {
+      const event = session.next.value;
+      if (event.message) {
+        broadcast(event.message);
+      }
+      if (event.whisper) {
+        const { sentence_id, original_text, corrected_text, start_time, end_time } = event.whisper;
+        broadcast({ type: 'whisper_processing', sentence_id, original_text, start_time, end_time });
+        setTimeout(() => {
+          broadcast({
+            type: 'whisper_complete',
+            sentence_id,
+            original_text,
+            corrected_text,
+            confidence: 0.93,
+            changed: corrected_text !== original_text,
+          });
+        }, 800);
+      }
+      session.next = session.events.next();
+    }
+  };
+
+  server.on('connection', (socket) => {
+    clients.add(socket);
+    let session = null;
+    let lang = 'en';
+    log(`[mock-ears] client connected (${clients.size} total)`);
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) {
+        if (data.length % 4 !== 0) {
+          socket.send(JSON.stringify({ type: 'error', message: 'audio frame length must be a multiple of 4 bytes' }));
+          return;
+        }
+        if (streamer && streamer !== socket) {
+          socket.send(JSON.stringify({ type: 'error', message: 'server busy' }));
+          return;
+        }
+        streamer = socket;
+        session ??= createSession(lang);
+        advance(session, data.length / 4);
+        return;
+      }
+
+      const text = data.toString().trim();
+      let command;
+      try {
+        command = text.startsWith('{') ? JSON.parse(text) : { type: text.replace(/"/g, '') };
+      } catch {
+        socket.send(JSON.stringify({ type: 'error', message: 'invalid command' }));
+        return;
+      }
+
+      if (command.type === 'stop') {
+        log('[mock-ears] stop received, closing connection');
+        socket.close();
+      } else if (command.type === 'setlanguage' && typeof command.lang === 'string') {
+        log(`[mock-ears] language set to ${command.lang}`);
+        if (command.lang !== lang) {
+          lang = command.lang;
+          if (session) {
+            session = createSession(lang, session.samples);
+          }
+        }
+      } else {
+        socket.send(JSON.stringify({ type: 'error', message: `unknown command: ${text}` }));
+      }
+    });
+
+    socket.on('close', () => {
+      clients.delete(socket);
+      if (streamer === socket) {
+        streamer = null;
+      }
+      log(`[mock-ears] client disconnected (${clients.size} total)`);
+    });
+  });
+
+  log(`[mock-ears] listening on ws://localhost:${port}`);
+  return server;
+}
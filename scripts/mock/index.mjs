@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+// Starts stand-ins for eaRS, Kokorox and the LLM so the app can run with
+// nothing else installed. Works with Node 18+ and Bun.
+//
+//   npm run mock -- [--scenario file.json] [--ears-port 8765] [--tts-port 8766]
+//                   [--llm-port 11434] [--only ears,tts,llm]
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { startMockEars } from './ears.mjs';
+import { startMockTts } from './tts.mjs';
+import { startMockLlm } from './llm.mjs';
+
+const here = dirname(fileURLToPath(import.meta.url));
+
+const { values } = parseArgs({
+  options: {
+    scenario: { type: 'string', default: resolve(here, 'scenarios/default.json') },
+    'ears-port': { type: 'string', default: process.env.EARS_PORT ?? '8765' },
+    'tts-port': { type: 'string', default: process.env.KOKO_PORT ?? '8766' },
+    'llm-port': { type: 'string', default: process.env.LLM_PORT ?? '11434' },
+    only: { type: 'string', default: 'ears,tts,llm' },
+  },
+});
+
+const scenario = JSON.parse(readFileSync(values.scenario, 'utf8'));
+const enabled = new Set(values.only.split(',').map(name => name.trim()));
+const servers = [];
+
+if (enabled.has('ears')) {
+  servers.push(startMockEars({ port: Number(values['ears-port']), scenario: scenario.ears }));
+}
+if (enabled.has('tts')) {
+  servers.push(startMockTts({ port: Number(values['tts-port']), scenario: scenario.tts }));
+}
+if (enabled.has('llm')) {
+  servers.push(startMockLlm({ port: Number(values['llm-port']), scenario: scenario.llm }));
+}
+
+const shutdown = () => {
+  servers.forEach(server => server.close());
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
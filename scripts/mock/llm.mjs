@@ -0,0 +1,128 @@
+import { createServer } from 'node:http';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const messageText = (content) =>
+  Array.isArray(content) ? content.map(part => part.text ?? '').join('') : String(content ?? '');
+
+// Pulls the source text and target language out of the prompt built from
+// src/config/prompts.json, so canned translations can be looked up by text.
+function parsePrompt(prompt) {
+  const marker = 'Text to translate:';
+  const index = prompt.lastIndexOf(marker);
+  const text = (index === -1 ? prompt : prompt.slice(index + marker.length)).trim();
+  const target = prompt.match(/ to ([^.\n]+?)\./)?.[1]?.trim() ?? 'target language';
+  return { text, target };
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+/**
+ * OpenAI-compatible stub for /v1/chat/completions (plain and `stream: true`)
+ * and /v1/models. Known source texts get their scripted translation; anything
+ * else comes back as "[Target] text".
+ */
+export function startMockLlm({ port, scenario, log = console.log }) {
+  const options = { delayMs: 300, tokenDelayMs: 40, translations: {}, ...scenario };
+
+  const translate = (prompt) => {
+    const { text, target } = parsePrompt(prompt);
+    return options.translations[text] ?? `[${target}] ${text}`;
+  };
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+    if (req.method === 'GET' && url.pathname === '/v1/models') {
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'mock-translator', object: 'model', owned_by: 'trnsltr' }] }));
+      return;
+    }
+
+    if (req.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+      res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: `No mock for ${req.method} ${url.pathname}` } }));
+      return;
+    }
+
+    let request;
+    try {
+      request = JSON.parse(await readBody(req));
+    } catch {
+      res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+      return;
+    }
+
+    const userMessages = (request.messages ?? []).filter(message => message.role === 'user');
+    const prompt = messageText(userMessages[userMessages.length - 1]?.content);
+    const content = translate(prompt);
+    const id = `chatcmpl-mock-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const model = request.model ?? 'mock-translator';
+    log(`[mock-llm] ${request.stream ? 'stream' : 'complete'}: ${content.slice(0, 60)}`);
+
+    await sleep(options.delayMs);
+
+    if (!request.stream) {
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: prompt.length, completion_tokens: content.length, total_tokens: prompt.length + content.length },
+      }));
+      return;
+    }
+
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const chunk = (delta, finishReason = null) =>
+      `data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      })}\n\n`;
+
+    res.write(chunk({ role: 'assistant', content: '' }));
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      if (res.destroyed) {
+        return;
+      }
+      res.write(chunk({ content: token }));
+      await sleep(options.tokenDelayMs);
+    }
+    res.write(chunk({}, 'stop'));
+    res.end('data: [DONE]\n\n');
+  });
+
+  server.listen(port, () => log(`[mock-llm] listening on http://localhost:${port}/v1`));
+  return server;
+}
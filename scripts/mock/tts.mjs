@@ -0,0 +1,99 @@
+import { WebSocketServer } from 'ws';
+import { toneWav } from './wav.mjs';
+
+const SAMPLE_RATE = 24000;
+
+/**
+ * Stand-in for `koko websocket`. Speaks the protocol in WEBSOCKET_TTS.md and
+ * answers `synthesize` with one tone per sentence, each as a base64 WAV chunk
+ * whose length follows the sentence length.
+ */
+export function startMockTts({ port, scenario, log = console.log }) {
+  const options = {
+    voices: ['af_sky'],
+    secondsPerCharacter: 0.06,
+    chunkDelayMs: 150,
+    ...scenario,
+  };
+  const server = new WebSocketServer({ port });
+
+  server.on('connection', (socket) => {
+    let voice = options.voices[0];
+    let language = 'en-us';
+    let queue = Promise.resolve();
+    log('[mock-tts] client connected');
+
+    const send = (message) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const synthesize = async (text, lang) => {
+      const sentences = text.split(/(?<=[.!?。！？])\s+/).map(s => s.trim()).filter(Boolean);
+      log(`[mock-tts] synthesize (${voice}, ${lang}): ${text.slice(0, 60)}`);
+      send({ type: 'synthesis_started' });
+
+      for (let index = 0; index < sentences.length; index++) {
+        await new Promise(resolve => setTimeout(resolve, options.chunkDelayMs));
+        const wav = toneWav({
+          durationSec: Math.max(0.3, sentences[index].length * options.secondsPerCharacter),
+          sampleRate: SAMPLE_RATE,
+          frequency: 330 + (index % 4) * 55,
+        });
+        send({
+          type: 'audio_chunk',
+          chunk: wav.toString('base64'),
+          index,
+          total: sentences.length,
+          sample_rate: SAMPLE_RATE,
+        });
+      }
+
+      send({ type: 'synthesis_completed' });
+    };
+
+    socket.on('message', (data) => {
+      let command;
+      try {
+        command = JSON.parse(data.toString());
+      } catch {
+        send({ type: 'error' });
+        return;
+      }
+
+      switch (command.command) {
+        case 'list_voices':
+          send({ type: 'voices', voice, voices: options.voices });
+          break;
+        case 'set_voice':
+          if (options.voices.includes(command.voice)) {
+            voice = command.voice;
+            send({ type: 'voice_changed', voice });
+          } else {
+            send({ type: 'error' });
+          }
+          break;
+        case 'set_language':
+          language = command.language ?? language;
+          send({ type: 'language_changed' });
+          break;
+        case 'synthesize':
+          if (typeof command.text !== 'string' || !command.text.trim()) {
+            send({ type: 'error' });
+            break;
+          }
+          // Requests are answered in order, like the real server.
+          queue = queue.then(() => synthesize(command.text, command.language ?? language));
+          break;
+        default:
+          send({ type: 'error' });
+      }
+    });
+
+    socket.on('close', () => log('[mock-tts] client disconnected'));
+  });
+
+  log(`[mock-tts] listening on ws://localhost:${port}`);
+  return server;
+}
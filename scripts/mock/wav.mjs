@@ -0,0 +1,29 @@
+// Builds a 16-bit PCM mono WAV file, the format Kokorox sends in audio_chunk.
+export function toneWav({ durationSec, sampleRate = 24000, frequency = 440, amplitude = 0.2 }) {
+  const sampleCount = Math.max(1, Math.round(durationSec * sampleRate));
+  const buffer = Buffer.alloc(44 + sampleCount * 2);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + sampleCount * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(sampleCount * 2, 40);
+
+  // Short fade in/out so consecutive chunks do not click.
+  const fade = Math.min(sampleCount / 2, sampleRate * 0.01);
+  for (let i = 0; i < sampleCount; i++) {
+    const envelope = Math.min(1, i / fade, (sampleCount - i) / fade);
+    const sample = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * amplitude * envelope;
+    buffer.writeInt16LE(Math.round(sample * 0x7fff), 44 + i * 2);
+  }
+
+  return buffer;
+}
@@ -15,6 +15,28 @@ FRONTEND_PORT=8080  # Vite frontend port
 SCRIPT_DIR="$( cd "$( dirname "${BASH_SOURCE[0]}" )" && pwd )"
 PROJECT_ROOT="$( cd "$SCRIPT_DIR/.." && pwd )"
 
+# With --mock, run the stand-in servers from scripts/mock instead of the real
+# eaRS, koko and LLM binaries.
+if [ "$1" = "--mock" ]; then
+    LLM_PORT=11434
+    echo "Starting mock eaRS, kokorox and LLM servers..."
+    cd "$PROJECT_ROOT"
+    node scripts/mock/index.mjs --ears-port $EARS_PORT --tts-port $KOKO_PORT --llm-port $LLM_PORT &
+    MOCK_PID=$!
+    trap 'kill $MOCK_PID 2>/dev/null' EXIT
+    sleep 1
+
+    echo ""
+    echo "Starting frontend on port $FRONTEND_PORT..."
+    echo ""
+    VITE_EARS_WS_URL=ws://localhost:$EARS_PORT \
+    VITE_TTS_WS_URL=ws://localhost:$KOKO_PORT \
+    VITE_LLM_BASE_URL=http://localhost:$LLM_PORT/v1 \
+    VITE_LLM_MODEL=mock-translator \
+    bun dev
+    exit $?
+fi
+
 echo "Starting trnsltr services..."
 echo ""
 
@@ -0,0 +1,45 @@
+import pcmCaptureProcessorUrl from './pcm-capture-processor.ts?worker&url';
+
+export interface PcmCaptureNodeOptions {
+  /** Samples per frame at the context sample rate. */
+  frameSize: number;
+  onFrame: (samples: Float32Array) => void;
+}
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Creates an AudioWorkletNode that emits mono f32 frames of `frameSize`
+ * samples. The node has no outputs, so it does not need to be connected to
+ * the destination to be processed.
+ */
+export async function createPcmCaptureNode(
+  context: AudioContext,
+  { frameSize, onFrame }: PcmCaptureNodeOptions
+): Promise<AudioWorkletNode> {
+  if (!registeredContexts.has(context)) {
+    await context.audioWorklet.addModule(pcmCaptureProcessorUrl);
+    registeredContexts.add(context);
+  }
+
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions: { frameSize },
+  });
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    onFrame(event.data);
+  };
+
+  return node;
+}
+
+export function releasePcmCaptureNode(node: AudioWorkletNode) {
+  node.port.onmessage = null;
+  node.port.close();
+  node.disconnect();
+}
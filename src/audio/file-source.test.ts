@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { EARS_SAMPLE_RATE, findSpeechEnd } from './file-source';
+
+// `seconds` of a 440 Hz tone at `amplitude`, as a stand-in for speech.
+const tone = (seconds: number, amplitude = 0.5): Float32Array =>
+  Float32Array.from({ length: Math.round(seconds * EARS_SAMPLE_RATE) }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * 440 * i) / EARS_SAMPLE_RATE)
+  );
+
+const concat = (...parts: Float32Array[]): Float32Array => {
+  const samples = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    samples.set(part, offset);
+    offset += part.length;
+  });
+  return samples;
+};
+
+describe('findSpeechEnd', () => {
+  it('finds where the last sound ends before trailing silence', () => {
+    const samples = concat(tone(1), new Float32Array(EARS_SAMPLE_RATE * 2), tone(0.5), new Float32Array(EARS_SAMPLE_RATE * 3));
+    expect(findSpeechEnd(samples)).toBeCloseTo(3.5, 1);
+  });
+
+  it('ignores background noise below the threshold', () => {
+    const samples = concat(tone(1), tone(2, 0.001));
+    expect(findSpeechEnd(samples)).toBeCloseTo(1, 1);
+  });
+
+  it('returns the full length when sound runs to the end and 0 for silence', () => {
+    expect(findSpeechEnd(tone(2))).toBeCloseTo(2, 5);
+    expect(findSpeechEnd(new Float32Array(EARS_SAMPLE_RATE))).toBe(0);
+  });
+});
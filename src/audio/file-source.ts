@@ -0,0 +1,123 @@
+export const EARS_SAMPLE_RATE = 24000;
+
+/**
+ * Decodes a WAV/MP3/OGG/FLAC file (anything the browser can decode) into mono
+ * f32 samples at `sampleRate`. Decoding through an OfflineAudioContext at the
+ * target rate lets the browser do the sample rate conversion.
+ */
+export async function decodeAudioFile(file: Blob, sampleRate = EARS_SAMPLE_RATE): Promise<Float32Array> {
+  const data = await file.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await context.decodeAudioData(data);
+
+  if (decoded.numberOfChannels === 1) {
+    return decoded.getChannelData(0).slice();
+  }
+
+  const mono = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) {
+      mono[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] /= decoded.numberOfChannels;
+  }
+  return mono;
+}
+
+/**
+ * Seconds from the start of `samples` to the end of the last frame louder
+ * than `thresholdDb` dBFS, or 0 if the whole file is quieter. The recognizer
+ * has nothing more to report for the file once it has finalized past this.
+ */
+export function findSpeechEnd(samples: Float32Array, sampleRate = EARS_SAMPLE_RATE, thresholdDb = -50): number {
+  const frameSize = Math.round(sampleRate * 0.02);
+  const threshold = 10 ** (thresholdDb / 20);
+  for (let end = samples.length; end > 0; end -= frameSize) {
+    const start = Math.max(0, end - frameSize);
+    let energy = 0;
+    for (let i = start; i < end; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (Math.sqrt(energy / (end - start)) >= threshold) {
+      return end / sampleRate;
+    }
+  }
+  return 0;
+}
+
+export interface StreamSamplesOptions {
+  /** Samples per frame sent to the server. */
+  chunkSize?: number;
+  sampleRate?: number;
+  /** Pace frames at playback speed instead of as fast as the socket drains. */
+  realtime: boolean;
+  /** Stop pushing frames while more than this many bytes are waiting in the socket. */
+  maxBufferedBytes?: number;
+  send: (samples: Float32Array) => boolean;
+  getBufferedAmount: () => number;
+  onProgress?: (sentSamples: number, totalSamples: number) => void;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Streams decoded samples to the server in fixed-size frames. Rejects with an
+ * AbortError when `signal` fires and with an Error when the socket goes away.
+ */
+export async function streamSamples(samples: Float32Array, {
+  chunkSize = 4096,
+  sampleRate = EARS_SAMPLE_RATE,
+  realtime,
+  maxBufferedBytes = 256 * 1024,
+  send,
+  getBufferedAmount,
+  onProgress,
+  signal,
+}: StreamSamplesOptions): Promise<void> {
+  const startedAt = performance.now();
+  let offset = 0;
+
+  while (offset < samples.length) {
+    if (signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+
+    if (realtime) {
+      const dueAt = startedAt + (offset / sampleRate) * 1000;
+      const wait = dueAt - performance.now();
+      if (wait > 0) {
+        await sleep(wait, signal);
+      }
+    } else {
+      while (getBufferedAmount() > maxBufferedBytes) {
+        await sleep(20, signal);
+      }
+    }
+
+    const frame = samples.subarray(offset, Math.min(offset + chunkSize, samples.length));
+    if (!send(frame)) {
+      throw new Error('Connection to speech server lost');
+    }
+    offset += frame.length;
+    onProgress?.(offset, samples.length);
+  }
+}
@@ -0,0 +1,45 @@
+export interface HalfDuplexSettings {
+  enabled: boolean;
+  /** How long the microphone stays muted after translated speech stops. */
+  tailMs: number;
+}
+
+export const DEFAULT_HALF_DUPLEX_SETTINGS: HalfDuplexSettings = {
+  enabled: false,
+  tailMs: 500,
+};
+
+/**
+ * Keeps the microphone from hearing our own TTS on open speakers. While
+ * playback is running, and for `tailMs` afterwards to cover room echo and the
+ * gaps between synthesized sentences, `isMuted` reports true.
+ */
+export class PlaybackGate {
+  private settings: HalfDuplexSettings;
+  private playing = false;
+  private endedAt = -Infinity;
+
+  constructor(settings: HalfDuplexSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: HalfDuplexSettings) {
+    this.settings = settings;
+  }
+
+  playbackStarted() {
+    this.playing = true;
+  }
+
+  playbackEnded(now = performance.now()) {
+    this.playing = false;
+    this.endedAt = now;
+  }
+
+  isMuted(now = performance.now()): boolean {
+    if (!this.settings.enabled) {
+      return false;
+    }
+    return this.playing || now - this.endedAt < this.settings.tailMs;
+  }
+}
@@ -0,0 +1,62 @@
+// Runs on the audio rendering thread. Collects 128-sample render quanta into
+// fixed-size mono f32 frames and transfers each full frame to the main thread.
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+interface PcmCaptureProcessorOptions {
+  frameSize?: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private frameSize: number;
+  private frame: Float32Array;
+  private offset = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = (options?.processorOptions ?? {}) as PcmCaptureProcessorOptions;
+    this.frameSize = Math.max(128, Math.floor(processorOptions.frameSize ?? 4096));
+    this.frame = new Float32Array(this.frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+
+    const length = channels[0].length;
+    const channelCount = channels.length;
+
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channelCount; c++) {
+        sample += channels[c][i];
+      }
+      this.frame[this.offset++] = sample / channelCount;
+
+      if (this.offset === this.frameSize) {
+        this.post();
+      }
+    }
+
+    return true;
+  }
+
+  private post() {
+    const frame = this.frame;
+    this.port.postMessage(frame, [frame.buffer]);
+    this.frame = new Float32Array(this.frameSize);
+    this.offset = 0;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler } from './resampler';
+
+const OUTPUT_RATE = 24000;
+
+const sine = (frequency: number, rate: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(rate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin((2 * Math.PI * frequency * i) / rate);
+  }
+  return samples;
+};
+
+// Linear sweep from `from` to `to` Hz over the whole signal.
+const sweep = (from: number, to: number, rate: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(rate * seconds));
+  const rateOfChange = (to - from) / seconds;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / rate;
+    samples[i] = Math.sin(2 * Math.PI * (from * t + (rateOfChange * t * t) / 2));
+  }
+  return samples;
+};
+
+// Peak amplitude in dB, measured away from the filter's start-up transient.
+const gainDb = (output: Float32Array): number => {
+  const steady = output.subarray(2000, output.length - 2000);
+  let energy = 0;
+  for (const sample of steady) {
+    energy += sample * sample;
+  }
+  return 20 * Math.log10(Math.sqrt((2 * energy) / steady.length));
+};
+
+const processInBlocks = (resampler: Resampler, input: Float32Array, blockSizes: number[]): Float32Array => {
+  const chunks: Float32Array[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = blockSizes[i % blockSizes.length];
+    chunks.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  const output = new Float32Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
+
+describe.each([44100, 48000])('Resampler %i Hz to 24 kHz', inputRate => {
+  it.each([100, 1000, 4000, 8000])('passes %i Hz at unity gain', frequency => {
+    const output = new Resampler(inputRate, OUTPUT_RATE).process(sine(frequency, inputRate, 1));
+    expect(Math.abs(gainDb(output))).toBeLessThan(0.1);
+  });
+
+  it.each([13000, 15000, 20000])('rejects %i Hz above the output Nyquist frequency', frequency => {
+    const output = new Resampler(inputRate, OUTPUT_RATE).process(sine(frequency, inputRate, 1));
+    expect(gainDb(output)).toBeLessThan(-60);
+  });
+
+  it('produces the expected number of samples', () => {
+    const output = new Resampler(inputRate, OUTPUT_RATE).process(sine(1000, inputRate, 1));
+    const resampler = new Resampler(inputRate, OUTPUT_RATE);
+    expect(Math.abs(output.length - (OUTPUT_RATE - resampler.latency))).toBeLessThanOrEqual(2);
+  });
+
+  it('stays continuous across process() block boundaries', () => {
+    const input = sweep(100, 10000, inputRate, 2);
+    const whole = new Resampler(inputRate, OUTPUT_RATE).process(input);
+    // Capture worklets deliver 128-sample quanta; the odd sizes make block
+    // edges fall on every fractional phase.
+    const blocked = processInBlocks(new Resampler(inputRate, OUTPUT_RATE), input, [128, 4096, 1, 333, 2047]);
+
+    expect(blocked.length).toBe(whole.length);
+    let maxDifference = 0;
+    for (let i = 0; i < whole.length; i++) {
+      maxDifference = Math.max(maxDifference, Math.abs(blocked[i] - whole[i]));
+    }
+    expect(maxDifference).toBeLessThan(1e-6);
+  });
+});
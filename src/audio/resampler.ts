@@ -0,0 +1,127 @@
+export interface ResamplerOptions {
+  /** Zero crossings of the interpolation kernel on each side, at the lower of the two rates. */
+  zeroCrossings?: number;
+  /** Number of precomputed fractional phases in the polyphase table. */
+  phases?: number;
+  /** Passband edge as a fraction of the lower Nyquist frequency. */
+  cutoff?: number;
+}
+
+const sinc = (x: number): number => {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const blackman = (x: number, halfWidth: number): number => {
+  if (Math.abs(x) >= halfWidth) {
+    return 0;
+  }
+  const t = (Math.PI * x) / halfWidth;
+  return 0.42 + 0.5 * Math.cos(t) + 0.08 * Math.cos(2 * t);
+};
+
+/**
+ * Streaming band-limited resampler using a Blackman-windowed sinc kernel
+ * stored as a polyphase table. When downsampling, the kernel is stretched so
+ * its cutoff sits below the output Nyquist frequency, which removes content
+ * that would otherwise alias into the speech band.
+ *
+ * The tail of each input block is kept so consecutive calls to `process`
+ * produce the same output as resampling the concatenated signal in one go.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly halfTaps: number;
+  private readonly taps: number;
+  private readonly phases: number;
+  private readonly table: Float32Array;
+  private history: Float32Array;
+  private position: number;
+
+  constructor(
+    readonly fromRate: number,
+    readonly toRate: number,
+    { zeroCrossings = 24, phases = 512, cutoff = 0.9 }: ResamplerOptions = {}
+  ) {
+    this.step = fromRate / toRate;
+    this.phases = phases;
+
+    // Kernel bandwidth relative to the input rate; widening the kernel by the
+    // same factor keeps the transition band fixed at the output rate.
+    const bandwidth = Math.min(1, toRate / fromRate) * cutoff;
+    this.halfTaps = Math.ceil(zeroCrossings / Math.min(1, toRate / fromRate));
+    this.taps = this.halfTaps * 2;
+    this.table = new Float32Array((phases + 1) * this.taps);
+
+    for (let p = 0; p <= phases; p++) {
+      const frac = p / phases;
+      const row = p * this.taps;
+      let sum = 0;
+
+      for (let j = 0; j < this.taps; j++) {
+        const x = j - this.halfTaps + 1 - frac;
+        const weight = bandwidth * sinc(bandwidth * x) * blackman(x, this.halfTaps);
+        this.table[row + j] = weight;
+        sum += weight;
+      }
+
+      // Unity gain at DC for every phase avoids a ripple at the phase rate.
+      for (let j = 0; j < this.taps; j++) {
+        this.table[row + j] /= sum;
+      }
+    }
+
+    this.history = new Float32Array(0);
+    this.position = 0;
+    this.reset();
+  }
+
+  /** Delay introduced by the filter, in output samples. */
+  get latency(): number {
+    return (this.halfTaps - 1) / this.step;
+  }
+
+  reset() {
+    this.history = new Float32Array(this.halfTaps - 1);
+    this.position = this.halfTaps - 1;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) {
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const lastUsable = buffer.length - this.halfTaps;
+    const capacity = Math.max(0, Math.ceil((lastUsable - this.position + 1) / this.step) + 1);
+    const output = new Float32Array(capacity);
+    let count = 0;
+    let position = this.position;
+
+    while (Math.floor(position) < lastUsable) {
+      const base = Math.floor(position);
+      const phase = Math.round((position - base) * this.phases);
+      const row = phase * this.taps;
+      const start = base - this.halfTaps + 1;
+
+      let acc = 0;
+      for (let j = 0; j < this.taps; j++) {
+        acc += buffer[start + j] * this.table[row + j];
+      }
+      output[count++] = acc;
+      position += this.step;
+    }
+
+    const keepFrom = Math.min(Math.floor(position) - this.halfTaps + 1, buffer.length);
+    this.history = buffer.slice(keepFrom);
+    this.position = position - keepFrom;
+
+    return count === capacity ? output : output.slice(0, count);
+  }
+}
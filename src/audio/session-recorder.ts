@@ -0,0 +1,38 @@
+import { encodeWav, floatTo16BitPcm } from './wav';
+
+/**
+ * Keeps the audio that was actually streamed to the recognizer, so eaRS word
+ * timestamps (seconds since the start of the stream) index straight into the
+ * recording. Stored as 16-bit PCM to halve memory use on long sessions.
+ */
+export class SessionRecorder {
+  private chunks: Int16Array[] = [];
+  private sampleCount = 0;
+
+  constructor(readonly sampleRate: number) {}
+
+  append(samples: Float32Array) {
+    if (samples.length === 0) {
+      return;
+    }
+    this.chunks.push(floatTo16BitPcm(samples));
+    this.sampleCount += samples.length;
+  }
+
+  get duration(): number {
+    return this.sampleCount / this.sampleRate;
+  }
+
+  get isEmpty(): boolean {
+    return this.sampleCount === 0;
+  }
+
+  toWav(): Blob {
+    return encodeWav(this.chunks, this.sampleRate);
+  }
+
+  reset() {
+    this.chunks = [];
+    this.sampleCount = 0;
+  }
+}
@@ -0,0 +1,200 @@
+export interface VadSettings {
+  enabled: boolean;
+  /** Frames quieter than this (RMS, dBFS) are never treated as speech. */
+  energyThresholdDb: number;
+  /** Normalised spectral flux needed to open the gate from silence. */
+  fluxThreshold: number;
+  /** How long the gate stays open after the last speech frame. */
+  hangoverMs: number;
+  /** Audio kept from before the onset and sent when the gate opens. */
+  preRollMs: number;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  enabled: false,
+  energyThresholdDb: -50,
+  fluxThreshold: 0.15,
+  hangoverMs: 600,
+  preRollMs: 300,
+};
+
+export interface SpeechGateResult {
+  isSpeech: boolean;
+  /** Frames that should be sent, oldest first (pre-roll plus the current frame). */
+  frames: Float32Array[];
+}
+
+const FFT_SIZE = 512;
+
+function fftMagnitudes(samples: Float32Array, window: Float32Array, re: Float32Array, im: Float32Array, out: Float32Array) {
+  const n = FFT_SIZE;
+  const offset = Math.max(0, samples.length - n);
+
+  for (let i = 0; i < n; i++) {
+    const index = offset + i;
+    re[i] = index < samples.length ? samples[index] * window[i] : 0;
+    im[i] = 0;
+  }
+
+  // Iterative radix-2 Cooley-Tukey, in place.
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  for (let i = 0; i < out.length; i++) {
+    out[i] = Math.hypot(re[i], im[i]);
+  }
+}
+
+/**
+ * Energy and spectral-flux voice activity gate for the outgoing audio stream.
+ *
+ * The gate opens when a frame is loud enough and its spectrum changed enough
+ * from the previous frame (onsets of speech rather than steady fan or hum),
+ * stays open while frames remain above the energy threshold, and closes once
+ * `hangoverMs` of quieter audio has passed. Frames seen while closed are held
+ * in a short pre-roll buffer so the first syllable is not clipped.
+ */
+export class SpeechGate {
+  private settings: VadSettings;
+  private readonly window = new Float32Array(FFT_SIZE);
+  private readonly re = new Float32Array(FFT_SIZE);
+  private readonly im = new Float32Array(FFT_SIZE);
+  private spectrum = new Float32Array(FFT_SIZE / 2);
+  private previousSpectrum = new Float32Array(FFT_SIZE / 2);
+  private hasPrevious = false;
+  private preRoll: Float32Array[] = [];
+  private preRollSamples = 0;
+  private open = false;
+  private silentSamples = 0;
+
+  constructor(settings: VadSettings, private sampleRate: number) {
+    this.settings = settings;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+    }
+  }
+
+  updateSettings(settings: VadSettings) {
+    this.settings = settings;
+  }
+
+  get isSpeech(): boolean {
+    return this.open;
+  }
+
+  reset() {
+    this.hasPrevious = false;
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.open = false;
+    this.silentSamples = 0;
+  }
+
+  process(frame: Float32Array): SpeechGateResult {
+    if (!this.settings.enabled) {
+      this.reset();
+      return { isSpeech: true, frames: [frame] };
+    }
+
+    let sumSquares = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sumSquares += frame[i] * frame[i];
+    }
+    const rms = Math.sqrt(sumSquares / Math.max(1, frame.length));
+    const energyDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+    const flux = this.spectralFlux(frame);
+    const loudEnough = energyDb >= this.settings.energyThresholdDb;
+
+    if (this.open) {
+      if (loudEnough) {
+        this.silentSamples = 0;
+      } else {
+        this.silentSamples += frame.length;
+        if ((this.silentSamples / this.sampleRate) * 1000 > this.settings.hangoverMs) {
+          this.open = false;
+          this.silentSamples = 0;
+          this.pushPreRoll(frame);
+          return { isSpeech: false, frames: [] };
+        }
+      }
+      return { isSpeech: true, frames: [frame] };
+    }
+
+    if (loudEnough && flux >= this.settings.fluxThreshold) {
+      this.open = true;
+      this.silentSamples = 0;
+      const frames = [...this.preRoll, frame];
+      this.preRoll = [];
+      this.preRollSamples = 0;
+      return { isSpeech: true, frames };
+    }
+
+    this.pushPreRoll(frame);
+    return { isSpeech: false, frames: [] };
+  }
+
+  private pushPreRoll(frame: Float32Array) {
+    const maxSamples = (this.settings.preRollMs / 1000) * this.sampleRate;
+    this.preRoll.push(frame);
+    this.preRollSamples += frame.length;
+
+    while (this.preRoll.length > 0 && this.preRollSamples - this.preRoll[0].length >= maxSamples) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+    if (maxSamples <= 0) {
+      this.preRoll = [];
+      this.preRollSamples = 0;
+    }
+  }
+
+  /** Positive spectral change relative to the current frame's magnitude, 0..1. */
+  private spectralFlux(frame: Float32Array): number {
+    fftMagnitudes(frame, this.window, this.re, this.im, this.spectrum);
+
+    let rise = 0;
+    let total = 0;
+    for (let i = 0; i < this.spectrum.length; i++) {
+      const diff = this.spectrum[i] - this.previousSpectrum[i];
+      if (diff > 0) {
+        rise += diff;
+      }
+      total += this.spectrum[i];
+    }
+
+    [this.spectrum, this.previousSpectrum] = [this.previousSpectrum, this.spectrum];
+
+    if (!this.hasPrevious) {
+      this.hasPrevious = true;
+      return 0;
+    }
+    return total > 0 ? rise / total : 0;
+  }
+}
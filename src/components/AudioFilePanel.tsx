@@ -0,0 +1,123 @@
+import { useRef, useState } from 'react';
+import { FileAudio, Upload, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+
+export interface AudioFileJob {
+  name: string;
+  status: 'decoding' | 'streaming' | 'done' | 'cancelled' | 'error';
+  sentSamples: number;
+  totalSamples: number;
+  sampleRate: number;
+  error?: string;
+}
+
+interface AudioFilePanelProps {
+  job: AudioFileJob | null;
+  disabled: boolean;
+  realtime: boolean;
+  onRealtimeChange: (realtime: boolean) => void;
+  onFile: (file: File) => void;
+  onCancel: () => void;
+}
+
+const formatSeconds = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const AudioFilePanel = ({ job, disabled, realtime, onRealtimeChange, onFile, onCancel }: AudioFilePanelProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const isBusy = job?.status === 'decoding' || job?.status === 'streaming';
+  const percent = job && job.totalSamples > 0 ? (job.sentSamples / job.totalSamples) * 100 : 0;
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && !disabled && !isBusy) {
+      onFile(file);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(event) => {
+        event.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setIsDragging(false);
+        handleFiles(event.dataTransfer.files);
+      }}
+      className={`max-w-2xl mx-auto mb-8 p-4 rounded-lg border border-dashed ${
+        isDragging ? 'border-gray-400 bg-gray-700/50' : 'border-gray-600 bg-gray-800/50'
+      }`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*,.wav,.mp3,.ogg,.flac"
+        className="hidden"
+        onChange={(event) => {
+          handleFiles(event.target.files);
+          event.target.value = '';
+        }}
+      />
+      <div className="flex flex-col sm:flex-row items-center justify-between space-y-3 sm:space-y-0">
+        <div className="flex items-center space-x-3">
+          <FileAudio className="h-5 w-5 text-gray-400" />
+          <span className="text-sm text-gray-300">
+            {job ? job.name : 'Drop a WAV, MP3, OGG or FLAC file to translate it'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2 text-xs text-gray-400">
+            <Switch checked={realtime} onCheckedChange={onRealtimeChange} disabled={isBusy} />
+            <span>{realtime ? 'Real time' : 'Fast'}</span>
+          </label>
+          {isBusy ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+              className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={disabled}
+              onClick={() => inputRef.current?.click()}
+              className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              Choose file
+            </Button>
+          )}
+        </div>
+      </div>
+      {job && (
+        <div className="mt-3 space-y-1">
+          <Progress value={percent} className="h-2 bg-gray-700" />
+          <p className="text-xs text-gray-400 font-mono">
+            {job.status === 'decoding' && 'Decoding...'}
+            {job.status === 'streaming' &&
+              `${formatSeconds(job.sentSamples / job.sampleRate)} / ${formatSeconds(job.totalSamples / job.sampleRate)}`}
+            {job.status === 'done' && `Finished (${formatSeconds(job.totalSamples / job.sampleRate)})`}
+            {job.status === 'cancelled' && 'Cancelled'}
+            {job.status === 'error' && <span className="text-red-400">{job.error}</span>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioFilePanel;
@@ -0,0 +1,32 @@
+import type { AudioSenderStats } from '@/services/audio-sender';
+
+interface AudioSendStatsProps {
+  stats: AudioSenderStats;
+}
+
+// Above this the transcript is noticeably behind the speaker.
+const LAG_WARNING_MS = 1000;
+
+const AudioSendStats = ({ stats }: AudioSendStatsProps) => {
+  const lagging = stats.lagMs > LAG_WARNING_MS;
+
+  return (
+    <div className="flex items-center space-x-3 text-xs font-mono text-gray-400">
+      <span title="Frames sent to eaRS">Sent {stats.sentFrames}</span>
+      <span
+        title="Frames dropped because the connection fell behind"
+        className={stats.droppedFrames > 0 ? 'text-yellow-400' : undefined}
+      >
+        Dropped {stats.droppedFrames}
+      </span>
+      <span
+        title="Audio waiting locally or in the socket"
+        className={lagging ? 'text-red-400' : undefined}
+      >
+        Lag {Math.round(stats.lagMs)} ms
+      </span>
+    </div>
+  );
+};
+
+export default AudioSendStats;
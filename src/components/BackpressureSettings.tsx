@@ -0,0 +1,48 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BackpressurePolicy } from '@/services/audio-sender';
+
+interface BackpressureSettingsProps {
+  policy: BackpressurePolicy;
+  onChange: (policy: BackpressurePolicy) => void;
+}
+
+const POLICIES: { value: BackpressurePolicy; label: string; description: string }[] = [
+  {
+    value: 'drop-oldest',
+    label: 'Drop oldest',
+    description: 'Discard the oldest held-back audio so captions stay close to live.',
+  },
+  {
+    value: 'coalesce',
+    label: 'Coalesce',
+    description: 'Like drop oldest, but send held-back audio as one larger frame once the link catches up.',
+  },
+  {
+    value: 'pause',
+    label: 'Pause',
+    description: 'Keep held-back audio intact and skip new audio until the link catches up.',
+  },
+];
+
+const BackpressureSettings = ({ policy, onChange }: BackpressureSettingsProps) => (
+  <div className="space-y-2">
+    <label className="text-sm font-medium text-gray-300">When the connection falls behind:</label>
+    <Select value={policy} onValueChange={(value) => onChange(value as BackpressurePolicy)}>
+      <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-gray-200">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-800 border-gray-600">
+        {POLICIES.map(option => (
+          <SelectItem key={option.value} value={option.value} className="text-gray-200 focus:bg-gray-700">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <p className="text-xs text-gray-400">
+      {POLICIES.find(option => option.value === policy)?.description}
+    </p>
+  </div>
+);
+
+export default BackpressureSettings;
@@ -0,0 +1,173 @@
+import { useRef, useState } from 'react';
+import { Plus, Trash2, Upload, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { toast } from '@/components/ui/sonner';
+import { entriesForPair, mergeGlossary, parseGlossaryCsv, type Glossary, type GlossaryEntry } from '@/lib/glossary';
+
+interface GlossaryEditorProps {
+  glossary: Glossary;
+  sourceLanguage: string;
+  targetLanguage: string;
+  /** Display names of the two languages, for the heading. */
+  languageNames: { source: string; target: string };
+  onChange: (glossary: Glossary) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm';
+
+/**
+ * Edits the glossary for the current language pair and the do-not-translate
+ * list, which applies to every pair. Entries for other pairs are kept as they
+ * are and show up when that pair is selected.
+ */
+const GlossaryEditor = ({ glossary, sourceLanguage, targetLanguage, languageNames, onChange }: GlossaryEditorProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [keepTerm, setKeepTerm] = useState('');
+  const entries = entriesForPair(glossary, sourceLanguage, targetLanguage);
+
+  const updateEntry = (id: string, update: Partial<GlossaryEntry>) => {
+    onChange({
+      ...glossary,
+      entries: glossary.entries.map(entry => (entry.id === id ? { ...entry, ...update } : entry)),
+    });
+  };
+
+  const addEntry = () => {
+    onChange({
+      ...glossary,
+      entries: [
+        ...glossary.entries,
+        { id: crypto.randomUUID(), source: '', target: '', sourceLanguage, targetLanguage },
+      ],
+    });
+  };
+
+  const removeEntry = (id: string) => {
+    onChange({ ...glossary, entries: glossary.entries.filter(entry => entry.id !== id) });
+  };
+
+  const addKeepTerm = () => {
+    const term = keepTerm.trim();
+    if (term && !glossary.doNotTranslate.includes(term)) {
+      onChange({ ...glossary, doNotTranslate: [...glossary.doNotTranslate, term] });
+    }
+    setKeepTerm('');
+  };
+
+  const removeKeepTerm = (term: string) => {
+    onChange({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(item => item !== term) });
+  };
+
+  const importCsv = async (file: File) => {
+    try {
+      const imported = parseGlossaryCsv(await file.text(), sourceLanguage, targetLanguage);
+      onChange(mergeGlossary(glossary, imported));
+      toast.success(`Imported ${imported.entries.length} terms and ${imported.doNotTranslate.length} protected names`);
+    } catch (error) {
+      console.error('[GlossaryEditor] Failed to import', file.name, error);
+      toast.error('Could not read the glossary file');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">
+          Glossary ({languageNames.source} → {languageNames.target}):
+        </label>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              importCsv(file);
+            }
+            event.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          Import CSV
+        </Button>
+      </div>
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={entry.source}
+            placeholder="Term"
+            onChange={(event) => updateEntry(entry.id, { source: event.target.value })}
+            className={inputClassName}
+          />
+          <span className="text-gray-400">→</span>
+          <input
+            type="text"
+            value={entry.target}
+            placeholder="Required translation"
+            onChange={(event) => updateEntry(entry.id, { target: event.target.value })}
+            className={inputClassName}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeEntry(entry.id)}
+            className="text-gray-400 hover:text-gray-100 hover:bg-gray-700"
+            title="Remove term"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addEntry}
+        className="text-gray-300 hover:text-gray-100 hover:bg-gray-700"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add term
+      </Button>
+      <div className="space-y-2">
+        <label className="text-xs text-gray-400">Never translate (all languages):</label>
+        <div className="flex flex-wrap gap-2">
+          {glossary.doNotTranslate.map(term => (
+            <span
+              key={term}
+              className="inline-flex items-center px-2 py-0.5 rounded bg-gray-700 border border-gray-600 text-xs text-gray-200"
+            >
+              {term}
+              <button onClick={() => removeKeepTerm(term)} className="ml-1 text-gray-400 hover:text-gray-100" title="Remove">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={keepTerm}
+          placeholder="Add a name and press Enter"
+          onChange={(event) => setKeepTerm(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              addKeepTerm();
+            }
+          }}
+          className={inputClassName}
+        />
+      </div>
+      <p className="text-xs text-gray-400">
+        Terms are sent to the LLM only with segments that contain them. CSV columns: source, target and optionally source and target language codes; leave the target empty to never translate a term.
+      </p>
+    </div>
+  );
+};
+
+export default GlossaryEditor;
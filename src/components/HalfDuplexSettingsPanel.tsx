@@ -0,0 +1,43 @@
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { HalfDuplexSettings } from '@/audio/half-duplex';
+
+interface HalfDuplexSettingsPanelProps {
+  settings: HalfDuplexSettings;
+  disabled?: boolean;
+  onChange: (settings: HalfDuplexSettings) => void;
+}
+
+const HalfDuplexSettingsPanel = ({ settings, disabled = false, onChange }: HalfDuplexSettingsPanelProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Half Duplex:</label>
+      <Switch
+        checked={settings.enabled}
+        disabled={disabled}
+        onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+      />
+    </div>
+    <p className="text-xs text-gray-400">
+      {disabled
+        ? 'Not available with browser speech recognition.'
+        : 'Stop sending microphone audio while translated speech is playing, so the speakers are not transcribed.'}
+    </p>
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Tail after speech</span>
+        <span className="font-mono">{settings.tailMs} ms</span>
+      </div>
+      <Slider
+        value={[settings.tailMs]}
+        min={0}
+        max={2000}
+        step={50}
+        disabled={disabled || !settings.enabled}
+        onValueChange={([tailMs]) => onChange({ ...settings, tailMs })}
+      />
+    </div>
+  </div>
+);
+
+export default HalfDuplexSettingsPanel;
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface InputLevelMeterProps {
+  analyser: AnalyserNode | null;
+}
+
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_MS = 1500;
+const PEAK_DECAY_PER_FRAME = 0.015;
+
+const toDb = (value: number): number => (value > 0 ? 20 * Math.log10(value) : -Infinity);
+
+// Maps -60..0 dBFS onto 0..100% so quiet speech is still visible.
+const toPercent = (value: number): number => {
+  const db = toDb(value);
+  if (!isFinite(db)) {
+    return 0;
+  }
+  return Math.max(0, Math.min(100, ((db + 60) / 60) * 100));
+};
+
+const InputLevelMeter = ({ analyser }: InputLevelMeterProps) => {
+  const [rms, setRms] = useState(0);
+  const [peak, setPeak] = useState(0);
+  const [clipping, setClipping] = useState(false);
+  const peakHold = useRef(0);
+  const lastClipAt = useRef(0);
+
+  useEffect(() => {
+    if (!analyser) {
+      setRms(0);
+      setPeak(0);
+      setClipping(false);
+      peakHold.current = 0;
+      return;
+    }
+
+    const buffer = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(buffer);
+
+      let sumSquares = 0;
+      let framePeak = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const sample = Math.abs(buffer[i]);
+        sumSquares += sample * sample;
+        if (sample > framePeak) {
+          framePeak = sample;
+        }
+      }
+
+      const now = performance.now();
+      if (framePeak >= CLIP_THRESHOLD) {
+        lastClipAt.current = now;
+      }
+
+      peakHold.current = Math.max(framePeak, peakHold.current - PEAK_DECAY_PER_FRAME);
+      setRms(Math.sqrt(sumSquares / buffer.length));
+      setPeak(peakHold.current);
+      setClipping(now - lastClipAt.current < CLIP_HOLD_MS);
+
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  const rmsDb = toDb(rms);
+
+  return (
+    <div className="flex flex-col items-center space-y-1 w-40" title={`RMS ${isFinite(rmsDb) ? rmsDb.toFixed(1) : '-∞'} dBFS`}>
+      <div className="relative w-full h-2 bg-gray-700 rounded overflow-hidden">
+        <div
+          className={`absolute inset-y-0 left-0 ${clipping ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${toPercent(rms)}%` }}
+        />
+        <div
+          className={`absolute inset-y-0 w-0.5 ${peak >= CLIP_THRESHOLD ? 'bg-red-400' : 'bg-gray-200'}`}
+          style={{ left: `${toPercent(peak)}%` }}
+        />
+      </div>
+      {clipping ? (
+        <span className="inline-flex items-center text-xs text-red-400">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Clipping - lower input gain
+        </span>
+      ) : (
+        <span className="text-xs text-gray-500 font-mono">
+          {isFinite(rmsDb) ? `${rmsDb.toFixed(0)} dB` : 'silence'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default InputLevelMeter;
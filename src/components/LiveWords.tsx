@@ -0,0 +1,56 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { needsSpaceBetween } from '@/lib/segmentation';
+
+export interface TimedWord {
+  word: string;
+  startTime?: number;
+  /** null while the recognizer may still revise the word. */
+  endTime?: number | null;
+}
+
+interface LiveWordsProps {
+  words: TimedWord[];
+}
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+const describeTiming = (word: TimedWord): string => {
+  if (typeof word.startTime !== 'number') {
+    return 'No timing reported';
+  }
+  const end = typeof word.endTime === 'number' ? formatTime(word.endTime) : 'still changing';
+  return `${formatTime(word.startTime)} – ${end}`;
+};
+
+/**
+ * Renders the live partial word by word. Words whose end time is still null
+ * may be revised by the recognizer and are shown dimmed; hovering a word
+ * shows its timing. Words are only spaced apart in scripts that use spaces.
+ */
+const LiveWords = ({ words }: LiveWordsProps) => (
+  <p className="text-gray-100 leading-relaxed">
+    {words.filter(word => word.word).map((word, index, shown) => {
+      const stable = word.endTime !== null;
+      return (
+        <span key={`${word.startTime ?? 'untimed'}-${index}`}>
+          {index > 0 && needsSpaceBetween(shown[index - 1].word, word.word) && ' '}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className={stable ? 'cursor-default' : 'cursor-default text-gray-400 italic'}>
+                {word.word}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent className="bg-gray-900 border-gray-700 text-gray-200 font-mono text-xs">
+              {describeTiming(word)}
+            </TooltipContent>
+          </Tooltip>
+        </span>
+      );
+    })}
+  </p>
+);
+
+export default LiveWords;
@@ -0,0 +1,36 @@
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { PartialTranslationSettings } from '@/services/partial-translation';
+
+interface PartialTranslationSettingsPanelProps {
+  settings: PartialTranslationSettings;
+  onChange: (settings: PartialTranslationSettings) => void;
+}
+
+const PartialTranslationSettingsPanel = ({ settings, onChange }: PartialTranslationSettingsPanelProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Simultaneous Interpretation:</label>
+      <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+    </div>
+    <p className="text-xs text-gray-400">
+      Translate the sentence while it is still being spoken. The provisional translation is shown greyed out until the segment is complete.
+    </p>
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Update at most every</span>
+        <span className="font-mono">{settings.intervalMs} ms</span>
+      </div>
+      <Slider
+        value={[settings.intervalMs]}
+        min={250}
+        max={5000}
+        step={250}
+        disabled={!settings.enabled}
+        onValueChange={([intervalMs]) => onChange({ ...settings, intervalMs })}
+      />
+    </div>
+  </div>
+);
+
+export default PartialTranslationSettingsPanel;
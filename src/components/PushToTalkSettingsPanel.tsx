@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { formatKeyCode, type PushToTalkSettings } from '@/hooks/use-push-to-talk';
+
+interface PushToTalkSettingsPanelProps {
+  settings: PushToTalkSettings;
+  disabled?: boolean;
+  onChange: (settings: PushToTalkSettings) => void;
+}
+
+const PushToTalkSettingsPanel = ({ settings, disabled = false, onChange }: PushToTalkSettingsPanelProps) => {
+  const [capturing, setCapturing] = useState(false);
+
+  useEffect(() => {
+    if (!capturing) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') {
+        onChange({ ...settings, key: event.code });
+      }
+      setCapturing(false);
+    };
+
+    // Capture phase, so the talk shortcut itself does not fire while rebinding.
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, settings, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Push to Talk:</label>
+        <Switch
+          checked={settings.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+      </div>
+      <div className="flex items-center space-x-3">
+        <span className="text-xs text-gray-400">Talk key:</span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || !settings.enabled}
+          onClick={() => setCapturing(true)}
+          className="font-mono bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+        >
+          {capturing ? 'Press a key... (Esc to cancel)' : formatKeyCode(settings.key)}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {disabled
+          ? 'Not available with browser speech recognition.'
+          : 'Audio is only sent while the key or the microphone button is held. After it is released, what was said is translated as soon as the recognizer has finished it.'}
+      </p>
+    </div>
+  );
+};
+
+export default PushToTalkSettingsPanel;
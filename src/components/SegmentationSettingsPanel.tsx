@@ -0,0 +1,87 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import type { SegmentationSettings, SegmentationStrategy } from '@/lib/segmentation';
+
+interface SegmentationSettingsPanelProps {
+  settings: SegmentationSettings;
+  onChange: (settings: SegmentationSettings) => void;
+}
+
+const STRATEGIES: { value: SegmentationStrategy; label: string }[] = [
+  { value: 'hybrid', label: 'Punctuation and pauses' },
+  { value: 'punctuation', label: 'Punctuation only' },
+  { value: 'pause', label: 'Pauses only' },
+];
+
+const SegmentationSettingsPanel = ({ settings, onChange }: SegmentationSettingsPanelProps) => {
+  const update = (patch: Partial<SegmentationSettings>) => onChange({ ...settings, ...patch });
+  const pausesUsed = settings.strategy !== 'punctuation';
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300">Split Segments At:</label>
+        <Select value={settings.strategy} onValueChange={(value) => update({ strategy: value as SegmentationStrategy })}>
+          <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-gray-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-600">
+            {STRATEGIES.map(option => (
+              <SelectItem key={option.value} value={option.value} className="text-gray-200 focus:bg-gray-700">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-400">
+          Pauses are measured from the recognizer's word timings, which helps when the transcript has no punctuation.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Pause length</span>
+            <span className="font-mono">{settings.pauseMs} ms</span>
+          </div>
+          <Slider
+            value={[settings.pauseMs]}
+            min={200}
+            max={2000}
+            step={50}
+            disabled={!pausesUsed}
+            onValueChange={([pauseMs]) => update({ pauseMs })}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Minimum words before a pause</span>
+            <span className="font-mono">{settings.minWords}</span>
+          </div>
+          <Slider
+            value={[settings.minWords]}
+            min={1}
+            max={10}
+            step={1}
+            disabled={!pausesUsed}
+            onValueChange={([minWords]) => update({ minWords })}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Maximum words</span>
+            <span className="font-mono">{settings.maxWords}</span>
+          </div>
+          <Slider
+            value={[settings.maxWords]}
+            min={5}
+            max={80}
+            step={1}
+            onValueChange={([maxWords]) => update({ maxWords })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentationSettingsPanel;
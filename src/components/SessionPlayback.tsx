@@ -0,0 +1,44 @@
+import type { RefObject } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+
+interface SessionPlaybackProps {
+  src: string;
+  audioRef: RefObject<HTMLAudioElement>;
+  onTimeUpdate: (time: number | null) => void;
+}
+
+const SessionPlayback = ({ src, audioRef, onTimeUpdate }: SessionPlaybackProps) => {
+  const fileName = `trnsltr-session-${new Date().toISOString().replace(/[:.]/g, '-')}.wav`;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-8 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+      <div className="flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 sm:space-x-4">
+        <audio
+          ref={audioRef}
+          src={src}
+          controls
+          className="w-full h-10"
+          onTimeUpdate={(event) => onTimeUpdate(event.currentTarget.currentTime)}
+          onEnded={() => onTimeUpdate(null)}
+        />
+        <Button
+          asChild
+          variant="outline"
+          size="sm"
+          className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+        >
+          <a href={src} download={fileName}>
+            <Download className="h-4 w-4 mr-1" />
+            Export WAV
+          </a>
+        </Button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Click a segment in the Original panel to play it from the recording.
+      </p>
+    </div>
+  );
+};
+
+export default SessionPlayback;
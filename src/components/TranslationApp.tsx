@@ -1,64 +1,243 @@
 import { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Volume2, VolumeX, Settings, Languages, Wifi, WifiOff } from 'lucide-react';
+import { Mic, MicOff, Volume2, VolumeX, Settings, Languages, Wifi, WifiOff, Sparkles, Eye, EyeOff, RotateCw, X } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { translateText } from '@/services/translation';
+import { translateText, type TranslationContextEntry, type TranslationResponse } from '@/services/translation';
 import { TTSService } from '@/services/tts';
+import { EARS_SERVER_BUSY, type EarsErrorMessage, type EarsFinalMessage, type EarsStatus, type EarsWhisperCompleteMessage, type EarsWhisperProcessingMessage, type EarsWordMessage } from '@/services/ears';
 import { getConfig } from '@/config/app-config';
+import { createPcmCaptureNode, releasePcmCaptureNode } from '@/audio/capture-node';
+import { Resampler } from '@/audio/resampler';
+import { DEFAULT_AUDIO_INPUT, useAudioInputDevices } from '@/hooks/use-audio-input-devices';
+import InputLevelMeter from '@/components/InputLevelMeter';
+import AudioFilePanel, { type AudioFileJob } from '@/components/AudioFilePanel';
+import { EARS_SAMPLE_RATE, decodeAudioFile, findSpeechEnd, streamSamples } from '@/audio/file-source';
+import { DEFAULT_VAD_SETTINGS, SpeechGate, type VadSettings } from '@/audio/vad';
+import VadSettingsPanel from '@/components/VadSettingsPanel';
+import { loadSetting, saveSetting } from '@/lib/storage';
+import { SessionRecorder } from '@/audio/session-recorder';
+import SessionPlayback from '@/components/SessionPlayback';
+import LiveWords, { type TimedWord } from '@/components/LiveWords';
+import PushToTalkSettingsPanel from '@/components/PushToTalkSettingsPanel';
+import HalfDuplexSettingsPanel from '@/components/HalfDuplexSettingsPanel';
+import SegmentationSettingsPanel from '@/components/SegmentationSettingsPanel';
+import { applyWordUpdate, findSegmentBoundary, joinTokens, splitSentences, type SegmentationSettings } from '@/lib/segmentation';
+import { DEFAULT_HALF_DUPLEX_SETTINGS, PlaybackGate, type HalfDuplexSettings } from '@/audio/half-duplex';
+import { DEFAULT_PUSH_TO_TALK, formatKeyCode, usePushToTalk, type PushToTalkSettings } from '@/hooks/use-push-to-talk';
+import { AudioSender, type AudioSenderStats, type BackpressurePolicy } from '@/services/audio-sender';
+import AudioSendStats from '@/components/AudioSendStats';
+import BackpressureSettings from '@/components/BackpressureSettings';
+import { toast } from '@/components/ui/sonner';
+import { OrderedDelivery, TranslationScheduler } from '@/services/translation-scheduler';
+import { PartialTranslator, type PartialTranslationSettings } from '@/services/partial-translation';
+import PartialTranslationSettingsPanel from '@/components/PartialTranslationSettingsPanel';
+import TranslationContextSettingsPanel from '@/components/TranslationContextSettingsPanel';
+import GlossaryEditor from '@/components/GlossaryEditor';
+import { EMPTY_GLOSSARY, findMissingTerms, matchGlossary, type Glossary } from '@/lib/glossary';
+import { SPEECH_RECOGNIZERS, createSpeechRecognizer, type SpeechRecognizer, type SpeechRecognizerKind } from '@/services/speech-recognizer';
+
+type InputSource = 'microphone' | 'display' | 'display+microphone';
+
+type SegmentStatus = 'pending' | 'translating' | 'done' | 'failed' | 'cancelled';
+
+// First retry of a failed translation; each further retry waits twice as long.
+const TRANSLATION_RETRY_BASE_MS = 1000;
+
+// eaRS reports Whisper spans on the same clock as the word timings, but the
+// edges of a sentence and of the words in it do not line up exactly.
+const WHISPER_SPAN_TOLERANCE_SECONDS = 0.25;
+
+// How long after the talk key is released to wait for the recognizer's final
+// before committing what has been recognized so far.
+const PUSH_TO_TALK_RELEASE_GRACE_MS = 800;
+
+// A file is done once the recognizer finalizes words ending this close to the
+// last sound in it; word timings do not line up exactly with the audio level.
+const FILE_SPEECH_END_TOLERANCE_SECONDS = 1;
+
+// Last resort for a file whose end the recognizer never finalizes, e.g. when
+// it ends in noise rather than speech: give up after this long without news.
+const FILE_FINAL_TIMEOUT_MS = 30000;
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
 
 interface TranslationSegment {
   id: string;
   original: string;
   translated: string;
+  status: SegmentStatus;
+  /** Glossary terms the translation should contain but does not. */
+  missingTerms?: string[];
+  /** Retries used by the current translation request. */
+  attempt?: number;
+  error?: string;
   timestamp: Date;
+  whisperSentenceId?: string;
+  refining?: boolean;
+  whisperConfidence?: number;
+  correctedFrom?: string;
+  startTime?: number;
+  endTime?: number;
+  /** Words and timings as first recognized; Whisper corrections do not update them. */
+  words?: TimedWord[];
+  /** Translation of the live partial, shown until the real one arrives. */
+  provisional?: string;
+}
+
+interface QueuedSpeech {
+  text: string;
+  language: string;
 }
 
-interface EarsMessage {
-  type: 'word' | 'final' | 'error' | 'whisper_processing' | 'whisper_complete';
-  word?: string;
-  start_time?: number;
-  end_time?: number | null;
-  text?: string;
-  words?: Array<{ word: string; start_time: number; end_time: number | null }>;
-  message?: string;
-  sentence_id?: string;
-  original_text?: string;
-  corrected_text?: string;
-  confidence?: number;
-  changed?: boolean;
+interface ProvisionalTranslation {
+  source: string;
+  text: string;
 }
 
 const TranslationApp = () => {
   const [isListening, setIsListening] = useState(false);
+  const [isMonitoring, setIsMonitoring] = useState(false);
   const [originalLanguage, setOriginalLanguage] = useState('en');
   const [targetLanguage, setTargetLanguage] = useState('es');
   const [segments, setSegments] = useState<TranslationSegment[]>([]);
-  const [currentOriginal, setCurrentOriginal] = useState('');
+  const segmentsRef = useRef<TranslationSegment[]>([]);
+  const [currentWords, setCurrentWords] = useState<TimedWord[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState('Disconnected');
+  const [reconnectStatus, setReconnectStatus] = useState<EarsStatus | null>(null);
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const [isTtsConnected, setIsTtsConnected] = useState(false);
+  const [levelAnalyser, setLevelAnalyser] = useState<AnalyserNode | null>(null);
+  const [fileJob, setFileJob] = useState<AudioFileJob | null>(null);
+  const [fileRealtime, setFileRealtime] = useState(true);
+  const [vadSettings, setVadSettings] = useState<VadSettings>(() => ({
+    ...DEFAULT_VAD_SETTINGS,
+    ...loadSetting<Partial<VadSettings>>('vad', {}),
+  }));
+  const [isSpeechDetected, setIsSpeechDetected] = useState(false);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [inputSource, setInputSource] = useState<InputSource>(() => loadSetting<InputSource>('inputSource', 'microphone'));
+  const [backpressurePolicy, setBackpressurePolicy] = useState<BackpressurePolicy>(() =>
+    loadSetting<BackpressurePolicy>('backpressurePolicy', getConfig().audioBackpressurePolicy)
+  );
+  const [sendStats, setSendStats] = useState<AudioSenderStats | null>(null);
+  const [pushToTalk, setPushToTalk] = useState<PushToTalkSettings>(() => ({
+    ...DEFAULT_PUSH_TO_TALK,
+    ...loadSetting<Partial<PushToTalkSettings>>('pushToTalk', {}),
+  }));
+  const [isTalking, setIsTalking] = useState(false);
+  const [halfDuplex, setHalfDuplex] = useState<HalfDuplexSettings>(() => ({
+    ...DEFAULT_HALF_DUPLEX_SETTINGS,
+    ...loadSetting<Partial<HalfDuplexSettings>>('halfDuplex', {}),
+  }));
+  const [isTtsPlaying, setIsTtsPlaying] = useState(false);
+  const [segmentation, setSegmentation] = useState<SegmentationSettings>(() => ({
+    strategy: getConfig().segmentationStrategy,
+    pauseMs: getConfig().segmentationPauseMs,
+    minWords: getConfig().segmentationMinWords,
+    maxWords: getConfig().translationMaxWords,
+    ...loadSetting<Partial<SegmentationSettings>>('segmentation', {}),
+  }));
+  const [partialTranslation, setPartialTranslation] = useState<PartialTranslationSettings>(() => ({
+    enabled: getConfig().partialTranslation,
+    intervalMs: getConfig().partialTranslationIntervalMs,
+    ...loadSetting<Partial<PartialTranslationSettings>>('partialTranslation', {}),
+  }));
+  const [translationContext, setTranslationContext] = useState<number>(() =>
+    loadSetting<number>('translationContextSegments', getConfig().translationContextSegments)
+  );
+  const [glossary, setGlossary] = useState<Glossary>(() => ({
+    ...EMPTY_GLOSSARY,
+    ...loadSetting<Partial<Glossary>>('glossary', {}),
+  }));
+  const [provisional, setProvisional] = useState<ProvisionalTranslation | null>(null);
+  const [recognizerKind, setRecognizerKind] = useState<SpeechRecognizerKind>(() =>
+    loadSetting<SpeechRecognizerKind>('speechRecognizer', getConfig().speechRecognizer)
+  );
+  const {
+    devices: inputDevices,
+    preferredDeviceId,
+    selectedDeviceId,
+    selectDevice,
+    refresh: refreshInputDevices,
+  } = useAudioInputDevices();
 
-  const websocket = useRef<WebSocket | null>(null);
-  const reconnectTimeout = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef<number>(0);
-  const maxReconnectAttempts = 5;
+  const recognizer = useRef<SpeechRecognizer | null>(null);
+  const audioSender = useRef<AudioSender | null>(null);
   const audioContext = useRef<AudioContext | null>(null);
   const mediaStream = useRef<MediaStream | null>(null);
-  const audioProcessor = useRef<ScriptProcessorNode | null>(null);
-  const pendingTranslations = useRef<Set<string>>(new Set());
+  const audioProcessor = useRef<AudioWorkletNode | null>(null);
+  const selectedDeviceIdRef = useRef<string>(selectedDeviceId);
+  const backpressurePolicyRef = useRef<BackpressurePolicy>(backpressurePolicy);
+  const isListeningRef = useRef<boolean>(false);
+  const fileAbort = useRef<AbortController | null>(null);
+  const serverBusyRef = useRef<boolean>(false);
+  const pushToTalkRef = useRef<boolean>(false);
+  const isTalkingRef = useRef<boolean>(false);
+  const playbackGate = useRef<PlaybackGate>(null!);
+  const segmentationRef = useRef<SegmentationSettings>(segmentation);
+  const partialTranslationRef = useRef<PartialTranslationSettings>(partialTranslation);
+  const provisionalRef = useRef<ProvisionalTranslation | null>(null);
+  const translationContextRef = useRef<number>(translationContext);
+  const glossaryRef = useRef<Glossary>(glossary);
+  const partialTranslator = useRef<PartialTranslator>(null!);
+  // eaRS timestamps restart at zero on every connection; this maps them back
+  // onto the session recording.
+  const earsTimeOffset = useRef<number>(0);
+  const vadSettingsRef = useRef<VadSettings>(vadSettings);
+  const speechGate = useRef<SpeechGate | null>(null);
+  const inputSourceRef = useRef<InputSource>(inputSource);
+  const sessionRecorder = useRef<SessionRecorder>(null!);
+  const recordingUrlRef = useRef<string | null>(null);
+  const playbackAudio = useRef<HTMLAudioElement>(null);
+  const translationControllers = useRef<Map<string, AbortController>>(null!);
+  const translationScheduler = useRef<TranslationScheduler>(null!);
+  const speechOrder = useRef<OrderedDelivery<QueuedSpeech>>(null!);
+  // Session-time spans of the Whisper sentences being refined, by sentence id.
+  const whisperSpans = useRef<Map<string, { startTime: number; endTime: number }>>(null!);
+  // Built on the first render only: `useRef(new X())` would construct a
+  // throwaway instance on every render.
+  if (!sessionRecorder.current) {
+    playbackGate.current = new PlaybackGate(halfDuplex);
+    partialTranslator.current = new PartialTranslator(
+      (text, abortSignal) => translatePartial(text, abortSignal),
+      (source, text) => showProvisional({ source, text }),
+      partialTranslation.intervalMs
+    );
+    sessionRecorder.current = new SessionRecorder(EARS_SAMPLE_RATE);
+    translationControllers.current = new Map();
+    whisperSpans.current = new Map();
+    translationScheduler.current = new TranslationScheduler({
+      concurrency: getConfig().translationConcurrency,
+      timeoutMs: getConfig().translationRequestTimeoutMs,
+    });
+    speechOrder.current = new OrderedDelivery<QueuedSpeech>(speech => speakTranslation(speech));
+  }
   const originalScrollRef = useRef<HTMLDivElement>(null);
   const translationScrollRef = useRef<HTMLDivElement>(null);
   const translationTimer = useRef<NodeJS.Timeout | null>(null);
+  const releaseTimer = useRef<NodeJS.Timeout | null>(null);
   const originalLanguageRef = useRef<string>(originalLanguage);
   const targetLanguageRef = useRef<string>(targetLanguage);
   const ttsService = useRef<TTSService | null>(null);
   const ttsEnabledRef = useRef<boolean>(false);
   const currentOriginalRef = useRef<string>('');
-  const currentWordsRef = useRef<Array<{ word: string; startTime?: number }>>([]);
+  const currentWordsRef = useRef<TimedWord[]>([]);
+  // Start time of the last word committed since the last `final`, if any.
+  const committedWordTime = useRef<number | null>(null);
+  // Start time of the last word committed in this session; later revisions of it are dropped.
+  const lastCommittedWordTime = useRef<number | null>(null);
   const config = getConfig();
 
   const languages = [
@@ -76,118 +255,195 @@ const TranslationApp = () => {
     { code: 'hi', name: 'Hindi' },
   ];
 
-  const connectWebSocket = () => {
-    if (websocket.current?.readyState === WebSocket.OPEN || websocket.current?.readyState === WebSocket.CONNECTING) {
-      return;
-    }
-
-    if (websocket.current) {
-      websocket.current.close();
-      websocket.current = null;
-    }
-
-    try {
-      setConnectionStatus('Connecting...');
-      websocket.current = new WebSocket(config.earsWebSocketUrl);
-      
-      websocket.current.onopen = () => {
+  const handleEarsStatus = (status: EarsStatus) => {
+    switch (status.state) {
+      case 'connecting':
+        setConnectionStatus('Connecting...');
+        break;
+      case 'connected':
         setIsConnected(true);
         setConnectionStatus('Connected');
-        reconnectAttempts.current = 0;
-        console.log('Connected to ears WebSocket server');
-      };
-      
-      websocket.current.onmessage = (event) => {
-        try {
-          const message: EarsMessage = JSON.parse(event.data);
-          console.log('[WebSocket Message]', message);
-          handleEarsMessage(message);
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
+        setReconnectStatus(null);
+        if (status.resumed) {
+          earsTimeOffset.current = sessionRecorder.current.duration;
+          console.log('[TranslationApp] Resumed eaRS session at', earsTimeOffset.current.toFixed(1), 'seconds');
         }
-      };
-      
-      websocket.current.onclose = () => {
+        break;
+      case 'disconnected':
         setIsConnected(false);
-        setIsListening(false);
         setConnectionStatus('Disconnected');
-        console.log('Disconnected from ears WebSocket server');
-        
-        if (reconnectAttempts.current < maxReconnectAttempts) {
-          const backoffDelay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
-          reconnectAttempts.current += 1;
-          setConnectionStatus(`Reconnecting in ${backoffDelay/1000}s (attempt ${reconnectAttempts.current}/${maxReconnectAttempts})...`);
-          
-          reconnectTimeout.current = setTimeout(() => {
-            connectWebSocket();
-          }, backoffDelay);
-        } else {
-          setConnectionStatus('Max reconnection attempts reached. Click to retry.');
+        // Capture keeps running through a drop; the words eaRS had not
+        // finalized yet will not come back from the new connection.
+        if (isListeningRef.current) {
+          flushCurrentText();
         }
-      };
-      
-      websocket.current.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        setConnectionStatus('Error');
-      };
-    } catch (error) {
-      console.error('Failed to connect WebSocket:', error);
-      setConnectionStatus('Failed to connect');
+        break;
+      case 'reconnecting':
+        setReconnectStatus(status);
+        setConnectionStatus(
+          status.maxAttempts
+            ? `Reconnecting in ${status.delayMs / 1000}s (attempt ${status.attempt}/${status.maxAttempts})...`
+            : `Reconnecting in ${status.delayMs / 1000}s (attempt ${status.attempt})...`
+        );
+        break;
+      case 'failed':
+        setConnectionStatus(
+          status.attempt ? 'Max reconnection attempts reached. Click to retry.' : 'Failed to connect'
+        );
+        break;
+    }
+  };
+
+  const resetTranslationTimer = () => {
+    if (translationTimer.current) {
+      clearTimeout(translationTimer.current);
+      translationTimer.current = null;
+    }
+  };
+
+  const cancelReleaseFlush = () => {
+    if (releaseTimer.current) {
+      clearTimeout(releaseTimer.current);
+      releaseTimer.current = null;
     }
   };
 
-  const detectSentenceEnd = (text: string): boolean => {
-    return /[.!?。！？]\s*$/.test(text.trim());
+  const getWordSpan = (words: TimedWord[]): { startTime?: number; endTime?: number } => {
+    const starts = words.map(word => word.startTime).filter((time): time is number => typeof time === 'number');
+    const ends = words
+      .map(word => word.endTime ?? word.startTime)
+      .filter((time): time is number => typeof time === 'number');
+    return {
+      startTime: starts.length > 0 ? Math.min(...starts) : undefined,
+      endTime: ends.length > 0 ? Math.max(...ends) : undefined,
+    };
   };
 
-  const countWords = (text: string): number => {
-    return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+  const commitSegment = (text: string, words: TimedWord[]) => {
+    const segmentId = crypto.randomUUID();
+    const starts = words.map(word => word.startTime).filter((time): time is number => typeof time === 'number');
+    if (starts.length > 0) {
+      committedWordTime.current = Math.max(committedWordTime.current ?? -Infinity, ...starts);
+      lastCommittedWordTime.current = Math.max(lastCommittedWordTime.current ?? -Infinity, ...starts);
+    }
+    // The partial translation stays up until the real one arrives, as long as
+    // the segment did not get shorter than the text it was made for.
+    const carried = provisionalRef.current && text.startsWith(provisionalRef.current.source)
+      ? provisionalRef.current.text
+      : undefined;
+    partialTranslator.current.cancel();
+    showProvisional(null);
+    setSegments(prevSegments => [
+      ...prevSegments,
+      {
+        id: segmentId,
+        original: text,
+        translated: '',
+        status: 'pending',
+        timestamp: new Date(),
+        words,
+        provisional: carried,
+        ...getWordSpan(words),
+      }
+    ]);
+    translateAsync(text, segmentId);
   };
 
-  const shouldTriggerTranslation = (text: string): boolean => {
-    return detectSentenceEnd(text) || countWords(text) >= config.translationMaxWords;
+  const joinWords = (words: TimedWord[]): string => {
+    return joinTokens(words.map(word => word.word));
   };
 
-  const resetTranslationTimer = () => {
-    if (translationTimer.current) {
-      clearTimeout(translationTimer.current);
-      translationTimer.current = null;
+  const setLiveWords = (words: TimedWord[]) => {
+    currentWordsRef.current = words;
+    currentOriginalRef.current = joinWords(words);
+    setCurrentWords(words);
+    if (partialTranslationRef.current.enabled) {
+      partialTranslator.current.update(currentOriginalRef.current);
+    }
+    if (!currentOriginalRef.current) {
+      showProvisional(null);
+    }
+  };
+
+  const showProvisional = (translation: ProvisionalTranslation | null) => {
+    provisionalRef.current = translation;
+    setProvisional(translation);
+  };
+
+  const getLanguageName = (code: string): string => {
+    return languages.find(l => l.code === code)?.name || code;
+  };
+
+  // The last translated segments before `segmentId` (or before the live
+  // partial), read when the request starts so that translations finished
+  // while it was queued are included.
+  const getTranslationContext = (segmentId?: string): TranslationContextEntry[] => {
+    const limit = translationContextRef.current;
+    if (limit <= 0) {
+      return [];
+    }
+    const index = segmentId ? segmentsRef.current.findIndex(seg => seg.id === segmentId) : -1;
+    const preceding = index === -1 ? segmentsRef.current : segmentsRef.current.slice(0, index);
+    return preceding
+      .filter(seg => seg.status === 'done' && seg.translated)
+      .slice(-limit)
+      .map(seg => ({ source: seg.original, translation: seg.translated }));
+  };
+
+  // Bypasses the scheduler so committed segments never queue behind a partial;
+  // PartialTranslator keeps at most one of these running.
+  const translatePartial = async (text: string, abortSignal: AbortSignal): Promise<string | null> => {
+    try {
+      const result = await translateText({
+        text,
+        sourceLanguage: getLanguageName(originalLanguageRef.current),
+        targetLanguage: getLanguageName(targetLanguageRef.current),
+        context: getTranslationContext(),
+        glossary: matchGlossary(glossaryRef.current, text, originalLanguageRef.current, targetLanguageRef.current),
+        abortSignal: AbortSignal.any([abortSignal, AbortSignal.timeout(config.translationRequestTimeoutMs)]),
+      });
+      return result.error ? null : result.translatedText;
+    } catch {
+      return null;
+    }
+  };
+
+  const flushCurrentText = () => {
+    resetTranslationTimer();
+    cancelReleaseFlush();
+    const text = currentOriginalRef.current.trim();
+    if (text) {
+      commitSegment(text, currentWordsRef.current);
+      setLiveWords([]);
     }
   };
 
   const startTranslationTimer = () => {
     resetTranslationTimer();
-    translationTimer.current = setTimeout(() => {
-      const text = currentOriginalRef.current.trim();
-      if (text) {
-        const segmentId = Date.now().toString();
-        setSegments(prevSegments => [...prevSegments, {
-          id: segmentId,
-          original: text,
-          translated: '',
-          timestamp: new Date()
-        }]);
-        translateAsync(text, segmentId);
-        setCurrentOriginal('');
-        currentOriginalRef.current = '';
-        currentWordsRef.current = [];
-      }
-    }, config.translationTimeoutMs);
+    translationTimer.current = setTimeout(flushCurrentText, config.translationTimeoutMs);
   };
 
-  const translateAsync = async (text: string, segmentId: string) => {
-    if (pendingTranslations.current.has(segmentId)) {
-      return;
-    }
+  const translateAsync = async (text: string, segmentId: string, { speak = true }: { speak?: boolean } = {}) => {
+    // A new request for the same segment, e.g. after a Whisper correction or
+    // a manual retry, replaces any that is still running or backing off.
+    translationControllers.current.get(segmentId)?.abort();
+    const controller = new AbortController();
+    translationControllers.current.set(segmentId, controller);
+    // Reserved up front so the translation is spoken in the order it was
+    // requested, however long it or the ones before it take.
+    const speechTicket = speak ? speechOrder.current.reserve() : null;
+    // Sentences already handed to TTS, in order. A retry skips those it
+    // translates the same way rather than repeating them.
+    const spokenSentences: string[] = [];
+    // What the listener has heard stays visible while retrying and after a failure.
+    const spokenText = () => joinTokens(spokenSentences);
 
-    pendingTranslations.current.add(segmentId);
-    
     try {
       const currentOriginalLang = originalLanguageRef.current;
       const currentTargetLang = targetLanguageRef.current;
       
-      const sourceLanguageName = languages.find(l => l.code === currentOriginalLang)?.name || currentOriginalLang;
-      const targetLanguageName = languages.find(l => l.code === currentTargetLang)?.name || currentTargetLang;
+      const sourceLanguageName = getLanguageName(currentOriginalLang);
+      const targetLanguageName = getLanguageName(currentTargetLang);
       
       console.log('=== Translation Request ===');
       console.log('Source Language Code:', currentOriginalLang);
@@ -195,161 +451,479 @@ const TranslationApp = () => {
       console.log('Source Language Name:', sourceLanguageName);
       console.log('Target Language Name:', targetLanguageName);
       console.log('Text to translate:', text);
-      
-      const result = await translateText({
-        text,
-        sourceLanguage: sourceLanguageName,
-        targetLanguage: targetLanguageName,
-      });
 
-      console.log('Translation Result:', result.translatedText);
+      const glossaryMatch = matchGlossary(glossaryRef.current, text, currentOriginalLang, currentTargetLang);
+
+      // Each sentence is spoken as soon as the next one starts streaming in,
+      // and the last one when the translation is complete.
+      const speakCompletedSentences = (translation: string, complete: boolean) => {
+        if (speechTicket === null) {
+          return;
+        }
+        // A Whisper correction may have replaced the text since this request started.
+        if (!segmentsRef.current.some(seg => seg.id === segmentId && seg.original === text)) {
+          return;
+        }
+        const sentences = splitSentences(translation, currentTargetLang).map(sentence => sentence.trim()).filter(Boolean);
+        const completed = complete ? sentences : sentences.slice(0, -1);
+        // Counted per text so a sentence that really is repeated is spoken again.
+        const occurrences = new Map<string, number>();
+        completed.forEach(sentence => {
+          const occurrence = (occurrences.get(sentence) ?? 0) + 1;
+          occurrences.set(sentence, occurrence);
+          if (spokenSentences.filter(spoken => spoken === sentence).length < occurrence) {
+            spokenSentences.push(sentence);
+            speechOrder.current.push(speechTicket, { text: sentence, language: currentTargetLang });
+          }
+        });
+      };
+
+      let result: TranslationResponse | null = null;
+      for (let attempt = 0; attempt <= config.translationRetries; attempt++) {
+        if (attempt > 0) {
+          const delayMs = TRANSLATION_RETRY_BASE_MS * 2 ** (attempt - 1);
+          console.log(`[TranslationApp] Retrying translation of segment ${segmentId} in ${delayMs}ms (attempt ${attempt}/${config.translationRetries})`);
+          await delay(delayMs, controller.signal);
+        }
+        if (controller.signal.aborted) {
+          return;
+        }
 
-      if (result.error) {
+        updateSegment(segmentId, { status: 'pending', attempt, error: undefined, translated: spokenText() });
+        result = await translationScheduler.current.run(abortSignal => {
+          updateSegment(segmentId, { status: 'translating' });
+          return translateText({
+            text,
+            sourceLanguage: sourceLanguageName,
+            targetLanguage: targetLanguageName,
+            context: getTranslationContext(segmentId),
+            glossary: glossaryMatch,
+            abortSignal,
+            onText: partial => {
+              if (controller.signal.aborted) {
+                return;
+              }
+              setSegments(prev => prev.map(seg =>
+                seg.id === segmentId && seg.original === text ? { ...seg, translated: partial } : seg
+              ));
+              speakCompletedSentences(partial, false);
+            },
+          });
+        }, controller.signal);
+        if (controller.signal.aborted) {
+          return;
+        }
+        if (!result.error) {
+          break;
+        }
         console.error('Translation error:', result.error);
+      }
+
+      if (!result || result.error) {
+        updateSegment(segmentId, { status: 'failed', error: result?.error ?? 'Translation failed', translated: spokenText() });
+        return;
+      }
+
+      console.log('Translation Result:', result.translatedText);
+
+      // A Whisper correction may have replaced the text while this request was in flight.
+      const isCurrent = segmentsRef.current.some(seg => seg.id === segmentId && seg.original === text);
+      if (!isCurrent) {
+        console.log('[TranslationApp] Discarding translation of superseded text for segment', segmentId);
         return;
       }
 
+      const translatedText = result.translatedText;
+      const missingTerms = findMissingTerms(translatedText, glossaryMatch);
+      if (missingTerms.length > 0) {
+        console.warn('[TranslationApp] Translation of segment', segmentId, 'is missing glossary terms:', missingTerms);
+      }
       setSegments(prev => 
         prev.map(seg => 
-          seg.id === segmentId 
-            ? { ...seg, translated: result.translatedText }
+          seg.id === segmentId && seg.original === text
+            ? { ...seg, translated: translatedText, status: 'done', error: undefined, missingTerms }
             : seg
         )
       );
 
-      console.log('[TranslationApp] TTS enabled:', ttsEnabledRef.current, 'TTS connected:', ttsService.current?.isConnected(), 'Text:', result.translatedText);
-      
-      if (ttsEnabledRef.current && ttsService.current?.isConnected() && result.translatedText) {
-        try {
-          console.log('[TranslationApp] Calling TTS speak for language:', currentTargetLang);
-          await ttsService.current.speak(result.translatedText, currentTargetLang);
-          console.log('[TranslationApp] TTS speak completed');
-        } catch (error) {
-          console.error('[TranslationApp] TTS playback error:', error);
-        }
-      }
+      speakCompletedSentences(translatedText, true);
     } catch (error) {
+      // The scheduler rejects requests that are cancelled while still queued.
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error('Translation failed:', error);
+      updateSegment(segmentId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Translation failed',
+        translated: spokenText(),
+      });
     } finally {
-      pendingTranslations.current.delete(segmentId);
+      if (speechTicket !== null) {
+        speechOrder.current.close(speechTicket);
+      }
+      if (translationControllers.current.get(segmentId) === controller) {
+        translationControllers.current.delete(segmentId);
+      }
     }
   };
 
-  const handleEarsMessage = async (message: EarsMessage) => {
-    if (message.type === 'error') {
-      console.error('Ears error:', message.message);
-      return;
+  const speakTranslation = async ({ text, language }: QueuedSpeech) => {
+    console.log('[TranslationApp] TTS enabled:', ttsEnabledRef.current, 'TTS connected:', ttsService.current?.isConnected(), 'Text:', text);
+
+    if (ttsEnabledRef.current && ttsService.current?.isConnected()) {
+      try {
+        console.log('[TranslationApp] Calling TTS speak for language:', language);
+        await ttsService.current.speak(text, language);
+        console.log('[TranslationApp] TTS speak completed');
+      } catch (error) {
+        console.error('[TranslationApp] TTS playback error:', error);
+      }
     }
+  };
 
-    if (message.type === 'word' && message.word) {
-      const words = [...currentWordsRef.current];
-      const startTime = message.start_time;
-      const existingIndex =
-        typeof startTime === 'number'
-          ? words.findIndex(word => word.startTime === startTime)
-          : -1;
+  const cancelTranslation = (segmentId: string) => {
+    translationControllers.current.get(segmentId)?.abort();
+    translationControllers.current.delete(segmentId);
+    updateSegment(segmentId, { status: 'cancelled', translated: '' });
+  };
 
-      if (existingIndex !== -1) {
-        words[existingIndex] = { word: message.word, startTime };
-      } else {
-        words.push({ word: message.word, startTime });
-      }
+  // Stops every translation still queued, running or waiting to retry, e.g.
+  // because the languages they were requested for no longer apply.
+  const cancelAllTranslations = () => {
+    Array.from(translationControllers.current.keys()).forEach(cancelTranslation);
+    translationScheduler.current.cancelAll();
+  };
 
-      currentWordsRef.current = words;
+  const changeOriginalLanguage = (code: string) => {
+    cancelAllTranslations();
+    setOriginalLanguage(code);
+  };
+
+  const changeTargetLanguage = (code: string) => {
+    cancelAllTranslations();
+    setTargetLanguage(code);
+  };
 
-      const newText = words
-        .map(word => word.word)
-        .filter(Boolean)
-        .join(' ')
-        .trim();
+  const retryTranslation = (segment: TranslationSegment) => {
+    translateAsync(segment.original, segment.id);
+  };
 
-      currentOriginalRef.current = newText;
-      setCurrentOriginal(newText);
+  const toSessionTime = (time: number | undefined): number | undefined => {
+    return typeof time === 'number' ? time + earsTimeOffset.current : undefined;
+  };
 
-      if (!newText) {
+  const handleEarsWord = (message: EarsWordMessage) => {
+    if (message.word) {
+      const startTime = toSessionTime(message.start_time);
+      const endTime = message.end_time === null ? null : toSessionTime(message.end_time);
+      const words = applyWordUpdate(currentWordsRef.current, { word: message.word, startTime, endTime }, lastCommittedWordTime.current);
+      if (!words) {
         return;
       }
 
-      if (shouldTriggerTranslation(newText)) {
-        resetTranslationTimer();
+      // A single update can complete more than one segment, e.g. when a pause
+      // only becomes visible once the next word arrives.
+      let remaining = words;
+      let boundary = findSegmentBoundary(remaining, segmentationRef.current, originalLanguageRef.current);
+      while (boundary !== null) {
+        const segmentWords = remaining.slice(0, boundary);
+        const text = joinWords(segmentWords);
+        if (text) {
+          commitSegment(text, segmentWords);
+        }
+        remaining = remaining.slice(boundary);
+        boundary = remaining.length > 0 ? findSegmentBoundary(remaining, segmentationRef.current, originalLanguageRef.current) : null;
+      }
 
-        const segmentId = Date.now().toString();
-        setSegments(prevSegments => [
-          ...prevSegments,
-          {
-            id: segmentId,
-            original: newText,
-            translated: '',
-            timestamp: new Date()
-          }
-        ]);
+      setLiveWords(remaining);
 
-        translateAsync(newText, segmentId);
-        setCurrentOriginal('');
-        currentOriginalRef.current = '';
-        currentWordsRef.current = [];
+      if (!currentOriginalRef.current) {
+        resetTranslationTimer();
         return;
       }
 
       startTranslationTimer();
+    }
+  };
+
+  const handleEarsFinal = (message: EarsFinalMessage) => {
+    resetTranslationTimer();
+    cancelReleaseFlush();
+
+    const textFromMessage = message.text?.trim() ?? '';
+    const wordsText = message.words
+      ? message.words.map(word => word.word).join(' ').trim()
+      : '';
+    const currentText = currentOriginalRef.current.trim();
+    const finalWords: TimedWord[] = message.words?.length
+      ? message.words.map(word => ({
+          word: word.word,
+          startTime: toSessionTime(word.start_time),
+          endTime: word.end_time === null ? null : toSessionTime(word.end_time),
+        }))
+      : [];
+
+    let textToTranslate = (textFromMessage || wordsText || currentText).trim();
+    let words = finalWords.length > 0 ? finalWords : currentWordsRef.current;
+
+    // The final repeats the whole utterance, but a segment boundary, the
+    // translation timer or push to talk may already have committed its start.
+    const committedUntil = committedWordTime.current;
+    if (committedUntil !== null) {
+      const timed = finalWords.length > 0 && finalWords.every(word => typeof word.startTime === 'number');
+      words = timed ? finalWords.filter(word => word.startTime! > committedUntil) : currentWordsRef.current;
+      textToTranslate = joinWords(words);
+    }
+
+    if (textToTranslate) {
+      commitSegment(textToTranslate, words);
+    }
+
+    committedWordTime.current = null;
+    setLiveWords([]);
+  };
+
+  const handleEarsError = (message: EarsErrorMessage) => {
+    console.error('Ears error:', message.message);
+
+    if (message.message === EARS_SERVER_BUSY) {
+      handleServerBusy();
+    }
+  };
+
+  // eaRS answers every frame from a second streaming client with "server
+  // busy", so only the first one in a session is acted on.
+  const handleServerBusy = () => {
+    const wasSending = isListeningRef.current || fileAbort.current !== null;
+    if (!wasSending || serverBusyRef.current) {
       return;
     }
+    serverBusyRef.current = true;
 
-    if (message.type === 'final') {
-      resetTranslationTimer();
+    if (isListeningRef.current) {
+      // Sending stop could end the other client's session.
+      stopListening({ notifyServer: false });
+    }
+    fileAbort.current?.abort();
 
-      const textFromMessage = message.text?.trim() ?? '';
-      const wordsText = message.words
-        ? message.words.map(word => word.word).join(' ').trim()
-        : '';
-      const currentText = currentOriginalRef.current.trim();
+    toast.error('eaRS is busy', {
+      description: 'Another client is already streaming audio. Switch to monitor mode to follow their captions instead.',
+      action: {
+        label: 'Monitor',
+        onClick: () => startMonitoring(),
+      },
+    });
+  };
 
-      const textToTranslate = (textFromMessage || wordsText || currentText).trim();
+  /**
+   * Segments a Whisper sentence covers: those already tagged with its id, or
+   * else every segment whose words lie within its time span. Segments are cut
+   * by pauses and punctuation, so one Whisper sentence can span several.
+   */
+  const findWhisperSegments = (sentenceId: string): TranslationSegment[] => {
+    const current = segmentsRef.current;
+    const byId = current.filter(seg => seg.whisperSentenceId === sentenceId);
+    const span = whisperSpans.current.get(sentenceId);
+    if (byId.length > 0 || !span) {
+      return byId;
+    }
 
-      if (textToTranslate) {
-        const segmentId = Date.now().toString();
+    return current.filter(seg => {
+      const { startTime, endTime } = getWordSpan(seg.words ?? []);
+      return typeof startTime === 'number'
+        && startTime >= span.startTime - WHISPER_SPAN_TOLERANCE_SECONDS
+        && (endTime ?? startTime) <= span.endTime + WHISPER_SPAN_TOLERANCE_SECONDS;
+    });
+  };
 
-        setSegments(prevSegments => [
-          ...prevSegments,
-          {
-            id: segmentId,
-            original: textToTranslate,
-            translated: '',
-            timestamp: new Date()
-          }
-        ]);
+  const rememberWhisperSpan = (message: EarsWhisperProcessingMessage | EarsWhisperCompleteMessage) => {
+    const startTime = toSessionTime(message.start_time);
+    const endTime = toSessionTime(message.end_time);
+    if (typeof startTime === 'number' && typeof endTime === 'number') {
+      whisperSpans.current.set(message.sentence_id, { startTime, endTime });
+    }
+  };
 
-        translateAsync(textToTranslate, segmentId);
-      }
+  const updateSegment = (segmentId: string, update: Partial<TranslationSegment>) => {
+    segmentsRef.current = segmentsRef.current.map(seg => (seg.id === segmentId ? { ...seg, ...update } : seg));
+    setSegments(prev => prev.map(seg => (seg.id === segmentId ? { ...seg, ...update } : seg)));
+  };
 
-      currentWordsRef.current = [];
-      currentOriginalRef.current = '';
-      setCurrentOriginal('');
+  const handleWhisperProcessing = (message: EarsWhisperProcessingMessage) => {
+    rememberWhisperSpan(message);
+    const matched = findWhisperSegments(message.sentence_id);
+    if (matched.length === 0) {
+      console.log('[TranslationApp] No segment matches Whisper sentence', message.sentence_id);
+      return;
     }
+
+    matched.forEach(seg => updateSegment(seg.id, { whisperSentenceId: message.sentence_id, refining: true }));
   };
 
-  const sendWebSocketMessage = (message: any) => {
-    if (websocket.current?.readyState === WebSocket.OPEN) {
-      websocket.current.send(JSON.stringify(message));
+  const handleWhisperComplete = (message: EarsWhisperCompleteMessage) => {
+    rememberWhisperSpan(message);
+    const matched = findWhisperSegments(message.sentence_id);
+    whisperSpans.current.delete(message.sentence_id);
+    if (matched.length === 0) {
+      console.log('[TranslationApp] No segment matches Whisper sentence', message.sentence_id);
+      return;
+    }
+
+    const correctedText = message.corrected_text?.trim();
+    const update: Partial<TranslationSegment> = {
+      whisperSentenceId: message.sentence_id,
+      refining: false,
+      whisperConfidence: message.confidence,
+    };
+    const [first, ...rest] = matched;
+    const original = joinTokens(matched.map(seg => seg.original));
+
+    if (message.changed && correctedText && correctedText !== original) {
+      // The corrected sentence replaces all the segments it covers; it is
+      // kept in the first one and the others are dropped.
+      console.log('[TranslationApp] Whisper corrected', matched.length, 'segment(s) :', original, '->', correctedText);
+      const removed = new Set(rest.map(seg => seg.id));
+      removed.forEach(segmentId => {
+        translationControllers.current.get(segmentId)?.abort();
+        translationControllers.current.delete(segmentId);
+      });
+      segmentsRef.current = segmentsRef.current.filter(seg => !removed.has(seg.id));
+      setSegments(prev => prev.filter(seg => !removed.has(seg.id)));
+
+      const words = matched.flatMap(seg => seg.words ?? []);
+      const translated = joinTokens(matched.map(seg => seg.translated || seg.provisional || ''));
+      updateSegment(first.id, {
+        ...update,
+        original: correctedText,
+        translated: '',
+        provisional: translated || undefined,
+        missingTerms: undefined,
+        correctedFrom: joinTokens(matched.map(seg => seg.correctedFrom ?? seg.original)),
+        words,
+        ...getWordSpan(words),
+      });
+      translateAsync(correctedText, first.id, { speak: config.whisperRespeak });
+      return;
     }
+
+    matched.forEach(seg => updateSegment(seg.id, update));
   };
 
   useEffect(() => {
     originalLanguageRef.current = originalLanguage;
-    if (isListening && isConnected) {
-      sendWebSocketMessage({ type: 'setlanguage', lang: originalLanguage });
+    if (isListeningRef.current && recognizer.current?.isConnected()) {
+      recognizer.current.setLanguage(originalLanguage);
     }
   }, [originalLanguage]);
 
   useEffect(() => {
     targetLanguageRef.current = targetLanguage;
+    partialTranslator.current.cancel();
+    showProvisional(null);
+    if (partialTranslationRef.current.enabled) {
+      partialTranslator.current.update(currentOriginalRef.current);
+    }
   }, [targetLanguage]);
 
+  useEffect(() => {
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  useEffect(() => {
+    isListeningRef.current = isListening;
+  }, [isListening]);
+
+  useEffect(() => {
+    vadSettingsRef.current = vadSettings;
+    speechGate.current?.updateSettings(vadSettings);
+    saveSetting('vad', vadSettings);
+  }, [vadSettings]);
+
+  useEffect(() => {
+    if (selectedDeviceIdRef.current === selectedDeviceId) {
+      return;
+    }
+    selectedDeviceIdRef.current = selectedDeviceId;
+    // Restarting a shared-audio session would prompt for the tab again, so
+    // the new microphone is picked up on the next session instead.
+    if (isListeningRef.current && inputSourceRef.current === 'microphone') {
+      handlersRef.current.restartAudioCapture();
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    saveSetting('pushToTalk', pushToTalk);
+  }, [pushToTalk]);
+
+  useEffect(() => {
+    segmentationRef.current = segmentation;
+    saveSetting('segmentation', segmentation);
+  }, [segmentation]);
+
+  useEffect(() => {
+    glossaryRef.current = glossary;
+    saveSetting('glossary', glossary);
+  }, [glossary]);
+
+  useEffect(() => {
+    translationContextRef.current = translationContext;
+    saveSetting('translationContextSegments', translationContext);
+  }, [translationContext]);
+
+  useEffect(() => {
+    partialTranslationRef.current = partialTranslation;
+    partialTranslator.current.updateInterval(partialTranslation.intervalMs);
+    if (!partialTranslation.enabled) {
+      partialTranslator.current.cancel();
+      showProvisional(null);
+    }
+    saveSetting('partialTranslation', partialTranslation);
+  }, [partialTranslation]);
+
+  useEffect(() => {
+    playbackGate.current.updateSettings(halfDuplex);
+    saveSetting('halfDuplex', halfDuplex);
+  }, [halfDuplex]);
+
+  useEffect(() => {
+    inputSourceRef.current = inputSource;
+    saveSetting('inputSource', inputSource);
+  }, [inputSource]);
+
+  useEffect(() => {
+    backpressurePolicyRef.current = backpressurePolicy;
+    audioSender.current?.updateOptions({ policy: backpressurePolicy });
+    saveSetting('backpressurePolicy', backpressurePolicy);
+  }, [backpressurePolicy]);
+
+  useEffect(() => {
+    if (!isListening) {
+      setSendStats(null);
+      return;
+    }
+    const interval = setInterval(() => {
+      if (audioSender.current) {
+        setSendStats(audioSender.current.getStats());
+      }
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isListening]);
+
   const initTTS = async () => {
     console.log('[TranslationApp] Initializing TTS with URL:', config.ttsWebSocketUrl);
     
     if (!ttsService.current) {
-      ttsService.current = new TTSService(config.ttsWebSocketUrl);
+      const service = new TTSService(config.ttsWebSocketUrl);
+      service.on('playback_start', () => {
+        playbackGate.current.playbackStarted();
+        setIsTtsPlaying(true);
+      });
+      service.on('playback_end', () => {
+        playbackGate.current.playbackEnded();
+        setIsTtsPlaying(false);
+      });
+      ttsService.current = service;
     }
     
     try {
@@ -382,16 +956,55 @@ const TranslationApp = () => {
   };
 
   useEffect(() => {
-    connectWebSocket();
+    saveSetting('speechRecognizer', recognizerKind);
+    const client = createSpeechRecognizer(recognizerKind, getConfig());
+    recognizer.current = client;
+    // Only audio that reached the recognizer is recorded, so the recording
+    // stays aligned with the word timings it reports.
+    audioSender.current = new AudioSender(client, {
+      policy: backpressurePolicyRef.current,
+      maxBufferedBytes: getConfig().audioMaxBufferedBytes,
+      maxQueueMs: getConfig().audioMaxQueueMs,
+      sampleRate: EARS_SAMPLE_RATE,
+      onSent: samples => sessionRecorder.current.append(samples),
+    });
+
+    const unsubscribers = [
+      client.on('status', status => handlersRef.current.handleEarsStatus(status)),
+      client.on('word', message => handlersRef.current.handleEarsWord(message)),
+      client.on('final', message => handlersRef.current.handleEarsFinal(message)),
+      client.on('error', message => handlersRef.current.handleEarsError(message)),
+      client.on('whisper_processing', message => handlersRef.current.handleWhisperProcessing(message)),
+      client.on('whisper_complete', message => handlersRef.current.handleWhisperComplete(message)),
+    ];
+
+    client.connect();
     
     return () => {
-      if (reconnectTimeout.current) {
-        clearTimeout(reconnectTimeout.current);
-      }
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      audioSender.current?.dispose();
+      audioSender.current = null;
+      client.disconnect();
+      recognizer.current = null;
+      setIsConnected(false);
+      setConnectionStatus('Disconnected');
+      setReconnectStatus(null);
+    };
+  }, [recognizerKind]);
+
+  useEffect(() => {
+    const translator = partialTranslator.current;
+    const controllers = translationControllers.current;
+    const scheduler = translationScheduler.current;
+    return () => {
       resetTranslationTimer();
+      translator.cancel();
+      controllers.forEach(controller => controller.abort());
+      scheduler.cancelAll();
       stopAudioCapture();
-      if (websocket.current) {
-        websocket.current.close();
+      fileAbort.current?.abort();
+      if (recordingUrlRef.current) {
+        URL.revokeObjectURL(recordingUrlRef.current);
       }
       if (ttsService.current) {
         ttsService.current.disconnect();
@@ -403,82 +1016,178 @@ const TranslationApp = () => {
     if (originalScrollRef.current) {
       originalScrollRef.current.scrollTop = originalScrollRef.current.scrollHeight;
     }
-  }, [segments, currentOriginal]);
+  }, [segments, currentWords]);
 
   useEffect(() => {
     if (translationScrollRef.current) {
       translationScrollRef.current.scrollTop = translationScrollRef.current.scrollHeight;
     }
-  }, [segments]);
+  }, [segments, provisional]);
 
-const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
-  if (fromRate === toRate) {
-    return samples;
+const openMicrophone = async (): Promise<MediaStream> => {
+  const audio: MediaTrackConstraints = {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true
+  };
+  const deviceId = selectedDeviceIdRef.current;
+
+  if (deviceId && deviceId !== DEFAULT_AUDIO_INPUT) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: deviceId } } });
+    } catch (error) {
+      console.warn('[TranslationApp] Selected microphone unavailable, using default:', error);
+    }
   }
-  
-  const ratio = fromRate / toRate;
-  const newLength = Math.round(samples.length / ratio);
-  const result = new Float32Array(newLength);
-  
-  for (let i = 0; i < newLength; i++) {
-    const srcIndex = i * ratio;
-    const srcIndexFloor = Math.floor(srcIndex);
-    const srcIndexCeil = Math.min(srcIndexFloor + 1, samples.length - 1);
-    const t = srcIndex - srcIndexFloor;
-    
-    result[i] = samples[srcIndexFloor] * (1 - t) + samples[srcIndexCeil] * t;
+
+  return navigator.mediaDevices.getUserMedia({ audio });
+};
+
+// Browsers only offer tab/system audio through screen sharing, so a video
+// track is requested as well and dropped straight away.
+const openDisplayAudio = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error('This browser cannot capture tab or system audio');
   }
-  
-  return result;
+
+  const display = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+  display.getVideoTracks().forEach(track => track.stop());
+
+  const audioTracks = display.getAudioTracks();
+  if (audioTracks.length === 0) {
+    throw new Error('No audio was shared. Enable "Share audio" when picking the tab or screen.');
+  }
+  return new MediaStream(audioTracks);
 };
 
-const startAudioCapture = async () => {
+const startAudioCapture = async (): Promise<boolean> => {
+  const opened: MediaStream[] = [];
+
   try {
     if (audioContext.current) {
       audioContext.current.close();
     }
     
-    const stream = await navigator.mediaDevices.getUserMedia({ 
-      audio: {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true
-      } 
-    });
-    
+    // Web Speech listens to the microphone itself; capture only feeds the
+    // level meter and the recording then.
+    const source = recognizer.current?.acceptsAudio === false ? 'microphone' : inputSourceRef.current;
+    const display = source === 'microphone' ? null : await openDisplayAudio();
+    if (display) {
+      opened.push(display);
+    }
+    const microphone = source === 'display' ? null : await openMicrophone();
+    if (microphone) {
+      opened.push(microphone);
+      // Labels and IDs only become visible once permission has been granted.
+      refreshInputDevices();
+    }
+
+    const stream = new MediaStream(opened.flatMap(input => input.getAudioTracks()));
     mediaStream.current = stream;
+
+    microphone?.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        if (mediaStream.current !== stream || !isListeningRef.current) {
+          return;
+        }
+        if (display) {
+          console.warn('[TranslationApp] Microphone disconnected, continuing with shared audio only');
+        } else {
+          console.warn('[TranslationApp] Microphone disconnected, restarting capture');
+          restartAudioCapture();
+        }
+      };
+    });
+
+    display?.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        if (mediaStream.current === stream && isListeningRef.current) {
+          console.log('[TranslationApp] Audio sharing ended');
+          stopListening();
+        }
+      };
+    });
     
     audioContext.current = new (window.AudioContext || (window as any).webkitAudioContext)();
     
-    const source = audioContext.current.createMediaStreamSource(mediaStream.current);
-    audioProcessor.current = audioContext.current.createScriptProcessor(4096, 1, 1);
-    
-    audioProcessor.current.onaudioprocess = (e) => {
-      if (websocket.current?.readyState === WebSocket.OPEN) {
-        const inputSamples = e.inputBuffer.getChannelData(0);
-        const inputSampleRate = audioContext.current!.sampleRate;
-        const targetSampleRate = 24000;
-        
-        const resampled = resample(inputSamples, inputSampleRate, targetSampleRate);
-        websocket.current.send(resampled.buffer);
-      }
-    };
+    const context = audioContext.current;
+    // Each input gets its own source node; connecting several sources to one
+    // node input mixes them.
+    const sources = opened.map(input => context.createMediaStreamSource(input));
+    const streamResampler = new Resampler(context.sampleRate, EARS_SAMPLE_RATE);
+    const gate = new SpeechGate(vadSettingsRef.current, EARS_SAMPLE_RATE);
+    speechGate.current = gate;
+    let wasSpeech: boolean | null = null;
+
+    audioProcessor.current = await createPcmCaptureNode(context, {
+      frameSize: config.audioFrameSize,
+      onFrame: (inputSamples) => {
+        // Always run the resampler and gate so their state stays continuous.
+        const resampled = streamResampler.process(inputSamples);
+        if (resampled.length === 0) {
+          return;
+        }
+
+        const { isSpeech, frames } = gate.process(resampled);
+        if (isSpeech !== wasSpeech) {
+          wasSpeech = isSpeech;
+          setIsSpeechDetected(isSpeech);
+        }
+
+        if (recognizer.current?.acceptsAudio === false) {
+          sessionRecorder.current.append(resampled);
+          return;
+        }
+        if (pushToTalkRef.current && !isTalkingRef.current) {
+          return;
+        }
+        if (playbackGate.current.isMuted()) {
+          return;
+        }
+        frames.forEach(frame => audioSender.current?.push(frame));
+      },
+    });
     
-    source.connect(audioProcessor.current);
-    audioProcessor.current.connect(audioContext.current.destination);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    sources.forEach(input => {
+      input.connect(audioProcessor.current!);
+      input.connect(analyser);
+    });
+    setLevelAnalyser(analyser);
+    return true;
   } catch (error) {
     console.error('Failed to start audio capture:', error);
+    if (mediaStream.current === null) {
+      opened.forEach(input => input.getTracks().forEach(track => track.stop()));
+    }
+    stopAudioCapture();
     setIsListening(false);
+    return false;
   }
 };
 
   const stopAudioCapture = () => {
+    setLevelAnalyser(null);
+    setIsSpeechDetected(false);
+    speechGate.current = null;
+    audioSender.current?.clear();
     if (audioProcessor.current) {
-      audioProcessor.current.disconnect();
+      releasePcmCaptureNode(audioProcessor.current);
       audioProcessor.current = null;
     }
     if (mediaStream.current) {
-      mediaStream.current.getTracks().forEach(track => track.stop());
+      mediaStream.current.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
       mediaStream.current = null;
     }
     if (audioContext.current) {
@@ -487,37 +1196,329 @@ const startAudioCapture = async () => {
     }
   };
 
-  const toggleListening = async () => {
-    if (!isConnected) {
-      reconnectAttempts.current = 0;
-      connectWebSocket();
+  const sendSessionAudio = (samples: Float32Array): boolean => {
+    if (!recognizer.current?.sendAudio(samples)) {
+      return false;
+    }
+    sessionRecorder.current.append(samples);
+    return true;
+  };
+
+  const setRecording = (url: string | null) => {
+    if (recordingUrlRef.current) {
+      URL.revokeObjectURL(recordingUrlRef.current);
+    }
+    recordingUrlRef.current = url;
+    setRecordingUrl(url);
+  };
+
+  const beginRecording = () => {
+    sessionRecorder.current.reset();
+    earsTimeOffset.current = 0;
+    committedWordTime.current = null;
+    lastCommittedWordTime.current = null;
+    setRecording(null);
+    setPlaybackTime(null);
+  };
+
+  const finishRecording = () => {
+    const recorder = sessionRecorder.current;
+    if (!recorder.isEmpty) {
+      console.log('[TranslationApp] Session recording:', recorder.duration.toFixed(1), 'seconds');
+      setRecording(URL.createObjectURL(recorder.toWav()));
+    }
+  };
+
+  const seekToSegment = (segment: TranslationSegment) => {
+    const audio = playbackAudio.current;
+    if (!audio || typeof segment.startTime !== 'number') {
       return;
     }
-    
+    audio.currentTime = segment.startTime;
+    audio.play().catch(error => console.error('[TranslationApp] Playback failed:', error));
+  };
+
+  const isSegmentPlaying = (segment: TranslationSegment): boolean => {
+    if (playbackTime === null || typeof segment.startTime !== 'number') {
+      return false;
+    }
+    const endTime = segment.endTime ?? segment.startTime;
+    return playbackTime >= segment.startTime && playbackTime <= endTime;
+  };
+
+  const restartAudioCapture = async () => {
+    stopAudioCapture();
+    await startAudioCapture();
+  };
+
+  const stopListening = ({ notifyServer = true }: { notifyServer?: boolean } = {}) => {
+    resetTranslationTimer();
+    // An utterance still waiting for its final after the talk key was released is kept.
+    if (releaseTimer.current) {
+      flushCurrentText();
+    }
+    setLiveWords([]);
+    stopAudioCapture();
+    recognizer.current?.stop({ notifyServer });
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    isListeningRef.current = false;
+    setIsListening(false);
+    finishRecording();
+  };
+
+  const resetTranscript = () => {
+    resetTranslationTimer();
+    translationControllers.current.forEach(controller => controller.abort());
+    translationControllers.current.clear();
+    translationScheduler.current.cancelAll();
+    whisperSpans.current.clear();
+    speechOrder.current.clear();
+    setSegments([]);
+    setLiveWords([]);
+  };
+
+  // Monitor mode follows another client's session: nothing is sent to eaRS,
+  // not even the language, since that would switch the speaker's recognizer.
+  const startMonitoring = () => {
+    if (isListeningRef.current || fileAbort.current) {
+      return;
+    }
+    resetTranscript();
+    setIsMonitoring(true);
+  };
+
+  const stopMonitoring = () => {
+    resetTranslationTimer();
+    setIsMonitoring(false);
+  };
+
+  const toggleMonitoring = () => {
+    if (isMonitoring) {
+      stopMonitoring();
+    } else {
+      startMonitoring();
+    }
+  };
+
+  const startListening = async (): Promise<boolean> => {
+    // Capture first: if the picker is cancelled or the microphone is denied,
+    // no recognizer session is started and the last transcript and recording
+    // are kept.
+    if (!(await startAudioCapture())) {
+      return false;
+    }
+    resetTranscript();
+    serverBusyRef.current = false;
+    beginRecording();
+    audioSender.current?.reset();
+    recognizer.current?.start(originalLanguageRef.current);
+    isListeningRef.current = true;
+    setIsListening(true);
+    return true;
+  };
+
+  const toggleListening = async () => {
     if (isListening) {
-      resetTranslationTimer();
-      currentOriginalRef.current = '';
-      currentWordsRef.current = [];
-      stopAudioCapture();
-      sendWebSocketMessage({ type: 'stop' });
-      setIsListening(false);
+      stopListening();
+    } else if (!isConnected) {
+      recognizer.current?.connect();
     } else {
-      setSegments([]);
-      setCurrentOriginal('');
-      currentOriginalRef.current = '';
-      currentWordsRef.current = [];
-      sendWebSocketMessage({ type: 'setlanguage', lang: originalLanguageRef.current });
-      await startAudioCapture();
-      setIsListening(true);
+      await startListening();
     }
   };
 
+  // In push-to-talk mode the first press opens the session and the capture
+  // stays open between presses, so later presses start streaming instantly.
+  const startTalking = async () => {
+    if (isTalkingRef.current || !recognizer.current?.isConnected() || fileAbort.current || isMonitoring) {
+      return;
+    }
+    // The previous utterance is complete even if its final has not arrived.
+    if (releaseTimer.current) {
+      flushCurrentText();
+    }
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    if (!isListeningRef.current && !(await startListening())) {
+      isTalkingRef.current = false;
+      setIsTalking(false);
+    }
+  };
+
+  const stopTalking = () => {
+    if (!isTalkingRef.current) {
+      return;
+    }
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    // The recognizer only finishes the last words once more audio arrives, and
+    // committing before that would split them off into a segment of their own.
+    // Silence stands in for the audio no longer sent.
+    audioSender.current?.push(new Float32Array(EARS_SAMPLE_RATE));
+    cancelReleaseFlush();
+    releaseTimer.current = setTimeout(flushCurrentText, PUSH_TO_TALK_RELEASE_GRACE_MS);
+  };
+
+  const finalReaches = (message: EarsFinalMessage, speechEnd: number): boolean => {
+    const ends = (message.words ?? [])
+      .map(word => toSessionTime(word.end_time ?? word.start_time))
+      .filter((time): time is number => typeof time === 'number');
+    return ends.length > 0 && Math.max(...ends) >= speechEnd - FILE_SPEECH_END_TOLERANCE_SECONDS;
+  };
+
+  // Resolves when a final covers the file up to `speechEnd` seconds, or on abort.
+  const waitForFileEnd = (client: SpeechRecognizer, speechEnd: number, signal: AbortSignal) =>
+    new Promise<void>(resolve => {
+      let timer: ReturnType<typeof setTimeout>;
+      const finish = () => {
+        clearTimeout(timer);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        signal.removeEventListener('abort', finish);
+        resolve();
+      };
+      const restartTimeout = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          console.warn('[TranslationApp] No final for the end of the file; committing what was recognized');
+          finish();
+        }, FILE_FINAL_TIMEOUT_MS);
+      };
+      const handleFinal = (message: EarsFinalMessage) => {
+        if (finalReaches(message, speechEnd)) {
+          finish();
+        } else {
+          restartTimeout();
+        }
+      };
+      const unsubscribers = [client.on('word', restartTimeout), client.on('final', handleFinal)];
+      signal.addEventListener('abort', finish, { once: true });
+      restartTimeout();
+    });
+
+  const transcribeFile = async (file: File) => {
+    const client = recognizer.current;
+    if (!client?.isConnected() || isListeningRef.current || isMonitoring) {
+      return;
+    }
+
+    const controller = new AbortController();
+    fileAbort.current = controller;
+    serverBusyRef.current = false;
+    resetTranscript();
+
+    const job: AudioFileJob = {
+      name: file.name,
+      status: 'decoding',
+      sentSamples: 0,
+      totalSamples: 0,
+      sampleRate: EARS_SAMPLE_RATE,
+    };
+    setFileJob(job);
+    beginRecording();
+    let stopWatching: (() => void) | null = null;
+
+    try {
+      const samples = await decodeAudioFile(file);
+      console.log('[TranslationApp] Decoded', file.name, ':', samples.length / EARS_SAMPLE_RATE, 'seconds');
+      setFileJob({ ...job, status: 'streaming', totalSamples: samples.length });
+
+      // The final for the end of the file can arrive while it is still being sent.
+      const speechEnd = findSpeechEnd(samples);
+      let reachedEnd = speechEnd === 0;
+      stopWatching = client.on('final', message => {
+        if (finalReaches(message, speechEnd)) {
+          reachedEnd = true;
+        }
+      });
+
+      client.start(originalLanguageRef.current);
+
+      let lastPercent = -1;
+      await streamSamples(samples, {
+        chunkSize: config.audioFrameSize,
+        realtime: fileRealtime,
+        send: sendSessionAudio,
+        getBufferedAmount: () => client.bufferedAmount,
+        signal: controller.signal,
+        onProgress: (sentSamples, totalSamples) => {
+          const percent = Math.floor((sentSamples / totalSamples) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            setFileJob({ ...job, status: 'streaming', sentSamples, totalSamples });
+          }
+        },
+      });
+
+      // Trailing silence lets the recognizer finish the last words of the file.
+      sendSessionAudio(new Float32Array(EARS_SAMPLE_RATE));
+      if (!reachedEnd) {
+        await waitForFileEnd(client, speechEnd, controller.signal);
+      }
+      controller.signal.throwIfAborted();
+      // Whatever the recognizer did not finalize is committed as it stands.
+      flushCurrentText();
+      client.stop();
+      setFileJob({ ...job, status: 'done', sentSamples: samples.length, totalSamples: samples.length });
+    } catch (error) {
+      if (serverBusyRef.current) {
+        setFileJob(prev => ({ ...(prev ?? job), status: 'error', error: 'eaRS is busy with another client' }));
+      } else if (error instanceof DOMException && error.name === 'AbortError') {
+        setFileJob(prev => (prev ? { ...prev, status: 'cancelled' } : prev));
+      } else {
+        console.error('[TranslationApp] File transcription failed:', error);
+        setFileJob(prev => ({
+          ...(prev ?? job),
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Could not read audio file',
+        }));
+      }
+    } finally {
+      stopWatching?.();
+      if (fileAbort.current === controller) {
+        fileAbort.current = null;
+      }
+      finishRecording();
+    }
+  };
+
+  const cancelFileTranscription = () => {
+    fileAbort.current?.abort();
+  };
+
+  const isStreamingFile = fileJob?.status === 'decoding' || fileJob?.status === 'streaming';
+  const recognizerInfo = SPEECH_RECOGNIZERS.find(info => info.kind === recognizerKind) ?? SPEECH_RECOGNIZERS[0];
+  const pushToTalkActive = pushToTalk.enabled && recognizerInfo.acceptsAudio;
+
+  useEffect(() => {
+    pushToTalkRef.current = pushToTalkActive;
+  }, [pushToTalkActive]);
+
+  // Effects that subscribe once, like the recognizer's events, call through
+  // this ref so they always reach the handlers of the latest render.
+  const handlers = {
+    handleEarsStatus,
+    handleEarsWord,
+    handleEarsFinal,
+    handleEarsError,
+    handleWhisperProcessing,
+    handleWhisperComplete,
+    restartAudioCapture,
+  };
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  usePushToTalk({
+    enabled: pushToTalkActive,
+    key: pushToTalk.key,
+    onPress: startTalking,
+    onRelease: stopTalking,
+  });
+
   const clearHistory = () => {
-    resetTranslationTimer();
-    setSegments([]);
-    setCurrentOriginal('');
-    currentOriginalRef.current = '';
-    currentWordsRef.current = [];
+    resetTranscript();
   };
 
   return (
@@ -559,19 +1560,132 @@ const startAudioCapture = async () => {
         </div>
       </div>
 
+      {(isListening || isMonitoring) && !isConnected && (
+        <div className="bg-yellow-900/40 border-b border-yellow-800">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div className="flex items-center space-x-2 text-sm text-yellow-300">
+              <WifiOff className="h-4 w-4 flex-shrink-0" />
+              <span>
+                Connection to eaRS lost.{' '}
+                {reconnectStatus
+                  ? `Reconnecting in ${reconnectStatus.delayMs / 1000}s (attempt ${reconnectStatus.attempt}).`
+                  : 'Reconnecting...'}{' '}
+                {isListening
+                  ? `Still listening: up to ${config.audioMaxQueueMs / 1000}s of audio is kept and sent when it is back.`
+                  : 'Captions resume when it is back.'}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => recognizer.current?.connect()}
+              className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+            >
+              Retry now
+            </Button>
+          </div>
+        </div>
+      )}
+
       {showSettings && (
         <div className="max-w-7xl mx-auto px-4 py-4">
           <Card className="bg-gray-800/50 backdrop-blur-sm border-gray-700 mb-6">
             <CardContent className="p-6 space-y-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-300">Ears WebSocket Server:</label>
-                <input 
-                  type="text" 
-                  value={config.earsWebSocketUrl} 
-                  disabled 
-                  className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-400 text-sm"
-                />
+                <label className="text-sm font-medium text-gray-300">Speech Recognizer:</label>
+                <Select
+                  value={recognizerKind}
+                  onValueChange={(value) => setRecognizerKind(value as SpeechRecognizerKind)}
+                  disabled={isListening || isMonitoring || isStreamingFile}
+                >
+                  <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-gray-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600">
+                    {SPEECH_RECOGNIZERS.map(info => (
+                      <SelectItem key={info.kind} value={info.kind} className="text-gray-200 focus:bg-gray-700">
+                        {info.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!recognizerInfo.acceptsAudio && (
+                  <p className="text-xs text-gray-400">
+                    The browser listens to the microphone directly, so tab audio, audio files, voice activity gating, half duplex and push to talk are not available.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Microphone:</label>
+                <Select value={preferredDeviceId} onValueChange={selectDevice}>
+                  <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-gray-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600">
+                    <SelectItem value={DEFAULT_AUDIO_INPUT} className="text-gray-200 focus:bg-gray-700">
+                      System default
+                    </SelectItem>
+                    {inputDevices.filter(device => device.deviceId).map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId} className="text-gray-200 focus:bg-gray-700">
+                        {device.label || `Microphone ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {preferredDeviceId !== selectedDeviceId && (
+                  <p className="text-xs text-yellow-400">
+                    Selected microphone is not connected. Using the system default until it is plugged back in.
+                  </p>
+                )}
               </div>
+              <PushToTalkSettingsPanel
+                settings={pushToTalk}
+                disabled={!recognizerInfo.acceptsAudio}
+                onChange={setPushToTalk}
+              />
+              <VadSettingsPanel
+                settings={vadSettings}
+                disabled={!recognizerInfo.acceptsAudio}
+                onChange={setVadSettings}
+              />
+              <HalfDuplexSettingsPanel
+                settings={halfDuplex}
+                disabled={!recognizerInfo.acceptsAudio}
+                onChange={setHalfDuplex}
+              />
+              <SegmentationSettingsPanel settings={segmentation} onChange={setSegmentation} />
+              <PartialTranslationSettingsPanel settings={partialTranslation} onChange={setPartialTranslation} />
+              <TranslationContextSettingsPanel segments={translationContext} onChange={setTranslationContext} />
+              <GlossaryEditor
+                glossary={glossary}
+                sourceLanguage={originalLanguage}
+                targetLanguage={targetLanguage}
+                languageNames={{ source: getLanguageName(originalLanguage), target: getLanguageName(targetLanguage) }}
+                onChange={setGlossary}
+              />
+              <BackpressureSettings policy={backpressurePolicy} onChange={setBackpressurePolicy} />
+              {recognizerKind === 'ears' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Ears WebSocket Server:</label>
+                  <input 
+                    type="text" 
+                    value={config.earsWebSocketUrl} 
+                    disabled 
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-400 text-sm"
+                  />
+                </div>
+              )}
+              {recognizerKind === 'whisper-http' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Transcription Server:</label>
+                  <input 
+                    type="text" 
+                    value={`${config.transcriptionBaseUrl} (${config.transcriptionModel})`} 
+                    disabled 
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-400 text-sm"
+                  />
+                </div>
+              )}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-300">TTS WebSocket Server:</label>
                 <input 
@@ -608,9 +1722,23 @@ const startAudioCapture = async () => {
 
       <div className="max-w-7xl mx-auto px-4 py-6">
         <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-8 mb-8">
+          <div className="flex items-center space-x-3">
+            <label className="text-sm font-medium text-gray-300">Input:</label>
+            <Select value={inputSource} onValueChange={(value) => setInputSource(value as InputSource)} disabled={isListening || !recognizerInfo.acceptsAudio}>
+              <SelectTrigger className="w-48 bg-gray-800 border-gray-600 text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-600">
+                <SelectItem value="microphone" className="text-gray-200 focus:bg-gray-700">Microphone</SelectItem>
+                <SelectItem value="display" className="text-gray-200 focus:bg-gray-700">Tab / system audio</SelectItem>
+                <SelectItem value="display+microphone" className="text-gray-200 focus:bg-gray-700">Tab audio + microphone</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="flex items-center space-x-3">
             <label className="text-sm font-medium text-gray-300">From:</label>
-            <Select value={originalLanguage} onValueChange={setOriginalLanguage}>
+            <Select value={originalLanguage} onValueChange={changeOriginalLanguage}>
               <SelectTrigger className="w-32 bg-gray-800 border-gray-600 text-gray-200">
                 <SelectValue />
               </SelectTrigger>
@@ -626,7 +1754,7 @@ const startAudioCapture = async () => {
           
           <div className="flex items-center space-x-3">
             <label className="text-sm font-medium text-gray-300">To:</label>
-            <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+            <Select value={targetLanguage} onValueChange={changeTargetLanguage}>
               <SelectTrigger className="w-32 bg-gray-800 border-gray-600 text-gray-200">
                 <SelectValue />
               </SelectTrigger>
@@ -641,46 +1769,120 @@ const startAudioCapture = async () => {
           </div>
         </div>
 
-        <div className="flex justify-center mb-8">
+        <div className="flex items-center justify-center space-x-6 mb-8">
           <Button
-            onClick={toggleListening}
+            onClick={pushToTalkActive && isConnected ? undefined : toggleListening}
+            onPointerDown={pushToTalkActive ? (event) => {
+              // Keeps the release on this button even if the pointer slides off.
+              event.currentTarget.setPointerCapture(event.pointerId);
+              startTalking();
+            } : undefined}
+            onPointerUp={pushToTalkActive ? stopTalking : undefined}
+            onPointerCancel={pushToTalkActive ? stopTalking : undefined}
             size="lg"
-            disabled={!isConnected && connectionStatus !== 'Connecting...'}
+            disabled={(!isConnected && connectionStatus !== 'Connecting...' && !isListening) || isStreamingFile || isMonitoring}
+            title={pushToTalkActive ? `Hold to talk (or hold ${formatKeyCode(pushToTalk.key)})` : undefined}
             className={`rounded-full w-20 h-20 ${
-              isListening 
+              isListening && (!pushToTalkActive || isTalking)
                 ? 'bg-red-600 hover:bg-red-700 animate-pulse' 
+                : isListening
+                ? 'bg-red-900/60 hover:bg-red-800'
                 : !isConnected
                 ? 'bg-gray-600 cursor-not-allowed'
                 : 'bg-gray-700 hover:bg-gray-600'
             }`}
           >
-            {isListening ? (
+            {isListening && !pushToTalkActive ? (
               <MicOff className="h-8 w-8 text-white" />
             ) : (
               <Mic className="h-8 w-8 text-white" />
             )}
           </Button>
+          {pushToTalkActive && isListening && (
+            <Button
+              onClick={() => stopListening()}
+              variant="outline"
+              size="sm"
+              className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100"
+            >
+              End session
+            </Button>
+          )}
+          {recognizerKind === 'ears' && (
+            <Button
+              onClick={toggleMonitoring}
+              variant="outline"
+              size="sm"
+              disabled={isListening || isStreamingFile}
+              title="Follow captions from another client that is streaming to eaRS"
+              className={isMonitoring
+                ? 'bg-blue-900/40 border-blue-600 text-blue-300 hover:bg-blue-900/60 hover:text-blue-200'
+                : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100'}
+            >
+              {isMonitoring ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+              {isMonitoring ? 'Stop monitoring' : 'Monitor'}
+            </Button>
+          )}
+          {isListening && (
+            <div className="flex flex-col items-center space-y-2">
+              <InputLevelMeter analyser={levelAnalyser} />
+              {vadSettings.enabled && (
+                <span className={`inline-flex items-center text-xs ${isSpeechDetected ? 'text-green-400' : 'text-gray-500'}`}>
+                  <span className={`w-2 h-2 rounded-full mr-1 ${isSpeechDetected ? 'bg-green-500 animate-pulse' : 'bg-gray-600'}`} />
+                  {isSpeechDetected ? 'Speech' : 'Silence'}
+                </span>
+              )}
+              {halfDuplex.enabled && isTtsPlaying && (
+                <span className="inline-flex items-center text-xs text-blue-400">
+                  <VolumeX className="h-3 w-3 mr-1" />
+                  Muted while translation plays
+                </span>
+              )}
+              {sendStats && <AudioSendStats stats={sendStats} />}
+            </div>
+          )}
         </div>
 
         <div className="text-center mb-8">
           <div className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-medium ${
             isListening 
               ? 'bg-red-900/30 text-red-400 border border-red-800' 
+              : isMonitoring && isConnected
+              ? 'bg-blue-900/30 text-blue-400 border border-blue-800'
               : !isConnected
               ? 'bg-yellow-900/30 text-yellow-400 border border-yellow-800'
               : 'bg-gray-800 text-gray-400 border border-gray-700'
           }`}>
             <div className={`w-2 h-2 rounded-full mr-2 ${
               isListening ? 'bg-red-500 animate-pulse' 
+              : isMonitoring && isConnected ? 'bg-blue-500 animate-pulse'
               : !isConnected ? 'bg-yellow-500 animate-pulse'
               : 'bg-gray-500'
             }`} />
-            {isListening ? 'Listening...' 
+            {isListening && !isConnected ? 'Listening (offline)...'
+             : isListening && pushToTalkActive && !isTalking ? `Hold ${formatKeyCode(pushToTalk.key)} to talk`
+             : isListening ? 'Listening...' 
              : !isConnected ? 'Connecting to server...' 
+             : isMonitoring ? 'Monitoring the active speaker...'
+             : isStreamingFile ? 'Transcribing file...'
+             : pushToTalkActive ? `Hold ${formatKeyCode(pushToTalk.key)} or the microphone button to talk`
              : 'Click to start listening'}
           </div>
         </div>
 
+        <AudioFilePanel
+          job={fileJob}
+          disabled={!isConnected || isListening || isMonitoring || !recognizerInfo.acceptsAudio}
+          realtime={fileRealtime}
+          onRealtimeChange={setFileRealtime}
+          onFile={transcribeFile}
+          onCancel={cancelFileTranscription}
+        />
+
+        {recordingUrl && !isListening && !isStreamingFile && (
+          <SessionPlayback src={recordingUrl} audioRef={playbackAudio} onTimeUpdate={setPlaybackTime} />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 max-w-6xl mx-auto">
           <Card className="bg-gray-800/50 backdrop-blur-sm border-gray-700 h-96">
             <CardContent className="p-6 h-full">
@@ -692,16 +1894,42 @@ const startAudioCapture = async () => {
               </div>
               <div ref={originalScrollRef} className="overflow-y-auto space-y-4 pr-2" style={{ height: 'calc(100% - 3rem)' }}>
                 {segments.map(segment => (
-                  <div key={segment.id} className="p-3 bg-gray-700/50 rounded-lg border border-gray-600">
-                    <p className="text-gray-100 leading-relaxed">{segment.original}</p>
-                    <p className="text-xs text-gray-400 mt-1 font-mono">
-                      {segment.timestamp.toLocaleTimeString()}
+                  <div
+                    key={segment.id}
+                    onClick={() => recordingUrl && seekToSegment(segment)}
+                    className={`p-3 rounded-lg border ${
+                      isSegmentPlaying(segment)
+                        ? 'bg-blue-900/30 border-blue-500'
+                        : 'bg-gray-700/50 border-gray-600'
+                    } ${recordingUrl && typeof segment.startTime === 'number' ? 'cursor-pointer hover:border-gray-400' : ''}`}
+                  >
+                    <p
+                      className="text-gray-100 leading-relaxed"
+                      title={segment.correctedFrom ? `Recognized as: ${segment.correctedFrom}` : undefined}
+                    >
+                      {segment.original}
                     </p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <p className="text-xs text-gray-400 font-mono">
+                        {segment.timestamp.toLocaleTimeString()}
+                      </p>
+                      {segment.refining && (
+                        <span className="inline-flex items-center text-xs text-blue-300">
+                          <Sparkles className="h-3 w-3 mr-1 animate-pulse" />
+                          Refining...
+                        </span>
+                      )}
+                      {!segment.refining && typeof segment.whisperConfidence === 'number' && (
+                        <Badge variant="secondary" className="text-xs">
+                          {segment.correctedFrom ? 'Corrected' : 'Verified'} {Math.round(segment.whisperConfidence * 100)}%
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                 ))}
-                {currentOriginal && (
+                {currentWords.some(word => word.word) && (
                   <div className="p-3 bg-gray-600 rounded-lg border-2 border-gray-500">
-                    <p className="text-gray-100 leading-relaxed">{currentOriginal}</p>
+                    <LiveWords words={currentWords} />
                     <div className="flex items-center mt-2">
                       <div className="w-1 h-4 bg-gray-300 animate-pulse rounded" />
                     </div>
@@ -731,20 +1959,85 @@ const startAudioCapture = async () => {
               </div>
               <div ref={translationScrollRef} className="overflow-y-auto space-y-4 pr-2" style={{ height: 'calc(100% - 3rem)' }}>
                 {segments.map(segment => (
-                  <div key={segment.id} className="p-3 bg-gray-700/50 rounded-lg border border-gray-600">
+                  <div
+                    key={segment.id}
+                    className={`p-3 rounded-lg border ${
+                      isSegmentPlaying(segment) ? 'bg-blue-900/30 border-blue-500' : 'bg-gray-700/50 border-gray-600'
+                    }`}
+                  >
                     {segment.translated ? (
-                      <p className="text-gray-100 leading-relaxed">{segment.translated}</p>
-                    ) : (
+                      <p className="text-gray-100 leading-relaxed">
+                        {segment.translated}
+                        {segment.status === 'translating' && (
+                          <span className="inline-block w-1 h-4 ml-1 bg-gray-300 animate-pulse rounded align-middle" />
+                        )}
+                      </p>
+                    ) : segment.provisional ? (
+                      <p className="text-gray-400 italic leading-relaxed">{segment.provisional}</p>
+                    ) : segment.status === 'failed' || segment.status === 'cancelled' ? null : (
                       <div className="flex items-center space-x-2">
-                        <p className="text-gray-400 leading-relaxed">Translating...</p>
+                        <p className="text-gray-400 leading-relaxed">
+                          {segment.attempt ? `Retrying (${segment.attempt}/${config.translationRetries})...` : 'Translating...'}
+                        </p>
                         <div className="w-1 h-4 bg-gray-300 animate-pulse rounded" />
                       </div>
                     )}
-                    <p className="text-xs text-gray-400 mt-1 font-mono">
-                      {segment.timestamp.toLocaleTimeString()}
-                    </p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <p className="text-xs text-gray-400 font-mono">
+                        {segment.timestamp.toLocaleTimeString()}
+                      </p>
+                      {segment.status === 'failed' && (
+                        <Badge variant="destructive" className="text-xs" title={segment.error}>
+                          Translation failed
+                        </Badge>
+                      )}
+                      {segment.missingTerms && segment.missingTerms.length > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs border-yellow-700 text-yellow-400"
+                          title={`Expected: ${segment.missingTerms.join(', ')}`}
+                        >
+                          Missing {segment.missingTerms.length === 1 ? 'term' : 'terms'}
+                        </Badge>
+                      )}
+                      {segment.status === 'cancelled' && (
+                        <Badge variant="secondary" className="text-xs">
+                          Cancelled
+                        </Badge>
+                      )}
+                      {(segment.status === 'failed' || segment.status === 'cancelled') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryTranslation(segment)}
+                          className="h-6 px-2 text-xs text-gray-300 hover:text-gray-100 hover:bg-gray-600"
+                        >
+                          <RotateCw className="h-3 w-3 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                      {(segment.status === 'pending' || segment.status === 'translating') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelTranslation(segment.id)}
+                          className="h-6 px-2 text-xs text-gray-400 hover:text-gray-100 hover:bg-gray-600"
+                          title="Cancel translation"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))}
+                {provisional && currentWords.some(word => word.word) && (
+                  <div className="p-3 bg-gray-600 rounded-lg border-2 border-gray-500">
+                    <p className="text-gray-400 italic leading-relaxed">{provisional.text}</p>
+                    <div className="flex items-center mt-2">
+                      <div className="w-1 h-4 bg-gray-300 animate-pulse rounded" />
+                    </div>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
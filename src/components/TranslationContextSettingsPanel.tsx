@@ -0,0 +1,21 @@
+import { Slider } from "@/components/ui/slider";
+
+interface TranslationContextSettingsPanelProps {
+  segments: number;
+  onChange: (segments: number) => void;
+}
+
+const TranslationContextSettingsPanel = ({ segments, onChange }: TranslationContextSettingsPanelProps) => (
+  <div className="space-y-2">
+    <div className="flex justify-between">
+      <label className="text-sm font-medium text-gray-300">Translation Context:</label>
+      <span className="text-xs text-gray-400 font-mono">{segments === 0 ? 'off' : `${segments} segments`}</span>
+    </div>
+    <Slider value={[segments]} min={0} max={10} step={1} onValueChange={([value]) => onChange(value)} />
+    <p className="text-xs text-gray-400">
+      Earlier segments and their translations sent along with each request, so pronouns and sentences split across segments are translated correctly.
+    </p>
+  </div>
+);
+
+export default TranslationContextSettingsPanel;
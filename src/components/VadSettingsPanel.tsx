@@ -0,0 +1,103 @@
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { VadSettings } from '@/audio/vad';
+
+interface VadSettingsPanelProps {
+  settings: VadSettings;
+  disabled?: boolean;
+  onChange: (settings: VadSettings) => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const SliderRow = ({ label, value, display, min, max, step, disabled, onChange }: SliderRowProps) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs text-gray-400">
+      <span>{label}</span>
+      <span className="font-mono">{display}</span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      onValueChange={([next]) => onChange(next)}
+    />
+  </div>
+);
+
+const VadSettingsPanel = ({ settings, disabled = false, onChange }: VadSettingsPanelProps) => {
+  const update = (patch: Partial<VadSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Voice Activity Gating:</label>
+        <Switch
+          checked={settings.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+      <p className="text-xs text-gray-400">
+        {disabled
+          ? 'Not available with browser speech recognition.'
+          : 'Only send audio to eaRS while speech is detected, plus a short lead-in.'}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <SliderRow
+          label="Energy threshold"
+          value={settings.energyThresholdDb}
+          display={`${settings.energyThresholdDb} dBFS`}
+          min={-80}
+          max={-20}
+          step={1}
+          disabled={disabled || !settings.enabled}
+          onChange={(energyThresholdDb) => update({ energyThresholdDb })}
+        />
+        <SliderRow
+          label="Onset sensitivity (spectral flux)"
+          value={settings.fluxThreshold}
+          display={settings.fluxThreshold.toFixed(2)}
+          min={0}
+          max={1}
+          step={0.01}
+          disabled={disabled || !settings.enabled}
+          onChange={(fluxThreshold) => update({ fluxThreshold })}
+        />
+        <SliderRow
+          label="Hangover"
+          value={settings.hangoverMs}
+          display={`${settings.hangoverMs} ms`}
+          min={0}
+          max={3000}
+          step={50}
+          disabled={disabled || !settings.enabled}
+          onChange={(hangoverMs) => update({ hangoverMs })}
+        />
+        <SliderRow
+          label="Pre-roll"
+          value={settings.preRollMs}
+          display={`${settings.preRollMs} ms`}
+          min={0}
+          max={1500}
+          step={50}
+          disabled={disabled || !settings.enabled}
+          onChange={(preRollMs) => update({ preRollMs })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default VadSettingsPanel;
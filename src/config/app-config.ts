@@ -1,19 +1,59 @@
+import type { BackpressurePolicy } from '@/services/audio-sender';
+import type { SpeechRecognizerKind } from '@/services/speech-recognizer';
+import type { SegmentationStrategy } from '@/lib/segmentation';
+
 export interface AppConfig {
+  speechRecognizer: SpeechRecognizerKind;
   earsWebSocketUrl: string;
+  transcriptionBaseUrl: string;
+  transcriptionModel: string;
+  transcriptionApiKey: string;
   ttsWebSocketUrl: string;
   localLlmBaseUrl: string;
   localLlmModel: string;
   translationTimeoutMs: number;
   translationMaxWords: number;
+  translationRetries: number;
+  translationConcurrency: number;
+  translationRequestTimeoutMs: number;
+  translationContextSegments: number;
+  segmentationStrategy: SegmentationStrategy;
+  segmentationPauseMs: number;
+  segmentationMinWords: number;
+  partialTranslation: boolean;
+  partialTranslationIntervalMs: number;
+  audioFrameSize: number;
+  audioMaxBufferedBytes: number;
+  audioMaxQueueMs: number;
+  audioBackpressurePolicy: BackpressurePolicy;
+  whisperRespeak: boolean;
 }
 
 export const defaultConfig: AppConfig = {
+  speechRecognizer: (import.meta.env.VITE_STT_BACKEND || 'ears') as SpeechRecognizerKind,
   earsWebSocketUrl: import.meta.env.VITE_EARS_WS_URL || 'ws://localhost:8765',
+  transcriptionBaseUrl: import.meta.env.VITE_TRANSCRIPTION_BASE_URL || 'http://localhost:8080/v1',
+  transcriptionModel: import.meta.env.VITE_TRANSCRIPTION_MODEL || 'whisper-1',
+  transcriptionApiKey: import.meta.env.VITE_TRANSCRIPTION_API_KEY || '',
   ttsWebSocketUrl: import.meta.env.VITE_TTS_WS_URL || 'ws://localhost:8766',
   localLlmBaseUrl: import.meta.env.VITE_LLM_BASE_URL || 'http://localhost:11434/v1',
   localLlmModel: import.meta.env.VITE_LLM_MODEL || 'llama3.2',
   translationTimeoutMs: parseInt(import.meta.env.VITE_TRANSLATION_TIMEOUT_MS || '5000', 10),
   translationMaxWords: parseInt(import.meta.env.VITE_TRANSLATION_MAX_WORDS || '30', 10),
+  translationRetries: parseInt(import.meta.env.VITE_TRANSLATION_RETRIES || '3', 10),
+  translationConcurrency: parseInt(import.meta.env.VITE_TRANSLATION_CONCURRENCY || '2', 10),
+  translationRequestTimeoutMs: parseInt(import.meta.env.VITE_TRANSLATION_REQUEST_TIMEOUT_MS || '30000', 10),
+  translationContextSegments: parseInt(import.meta.env.VITE_TRANSLATION_CONTEXT_SEGMENTS || '3', 10),
+  segmentationStrategy: (import.meta.env.VITE_SEGMENTATION_STRATEGY || 'hybrid') as SegmentationStrategy,
+  segmentationPauseMs: parseInt(import.meta.env.VITE_SEGMENTATION_PAUSE_MS || '700', 10),
+  segmentationMinWords: parseInt(import.meta.env.VITE_SEGMENTATION_MIN_WORDS || '3', 10),
+  partialTranslation: import.meta.env.VITE_PARTIAL_TRANSLATION === 'true',
+  partialTranslationIntervalMs: parseInt(import.meta.env.VITE_PARTIAL_TRANSLATION_INTERVAL_MS || '1500', 10),
+  audioFrameSize: parseInt(import.meta.env.VITE_AUDIO_FRAME_SIZE || '4096', 10),
+  audioMaxBufferedBytes: parseInt(import.meta.env.VITE_AUDIO_MAX_BUFFERED_BYTES || '65536', 10),
+  audioMaxQueueMs: parseInt(import.meta.env.VITE_AUDIO_MAX_QUEUE_MS || '2000', 10),
+  audioBackpressurePolicy: (import.meta.env.VITE_AUDIO_BACKPRESSURE_POLICY || 'drop-oldest') as BackpressurePolicy,
+  whisperRespeak: import.meta.env.VITE_WHISPER_RESPEAK === 'true',
 };
 
 export const getConfig = (): AppConfig => {
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react"
+import { loadSetting, saveSetting } from "@/lib/storage"
+
+export const DEFAULT_AUDIO_INPUT = "default"
+
+const STORAGE_KEY = "audioInputDeviceId"
+
+/**
+ * Lists microphones and keeps the preferred one persisted. While the
+ * preferred device is unplugged the system default is used instead, and the
+ * preferred device is picked up again as soon as it reappears.
+ */
+export function useAudioInputDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [preferredDeviceId, setPreferredDeviceId] = useState<string>(() =>
+    loadSetting(STORAGE_KEY, DEFAULT_AUDIO_INPUT)
+  )
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return
+    }
+
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter(device => device.kind === "audioinput" && device.deviceId !== DEFAULT_AUDIO_INPUT))
+    } catch (error) {
+      console.error("[AudioDevices] Failed to enumerate devices:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    navigator.mediaDevices?.addEventListener("devicechange", refresh)
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", refresh)
+  }, [refresh])
+
+  const selectDevice = useCallback((deviceId: string) => {
+    setPreferredDeviceId(deviceId)
+    saveSetting(STORAGE_KEY, deviceId)
+  }, [])
+
+  // Device IDs are blank until the page has microphone permission, so only
+  // fall back once we can actually tell the preferred device is missing.
+  const canResolve = devices.some(device => device.deviceId)
+  const isAvailable = preferredDeviceId === DEFAULT_AUDIO_INPUT
+    || !canResolve
+    || devices.some(device => device.deviceId === preferredDeviceId)
+  const selectedDeviceId = isAvailable ? preferredDeviceId : DEFAULT_AUDIO_INPUT
+
+  return { devices, preferredDeviceId, selectedDeviceId, selectDevice, refresh }
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react"
+
+export interface PushToTalkSettings {
+  enabled: boolean
+  /** `KeyboardEvent.code` of the talk key, so it works on any layout. */
+  key: string
+}
+
+export const DEFAULT_PUSH_TO_TALK: PushToTalkSettings = {
+  enabled: false,
+  key: "Space",
+}
+
+/** Human-readable name for a `KeyboardEvent.code`. */
+export function formatKeyCode(code: string): string {
+  return code.replace(/^Key/, "").replace(/^Digit/, "").replace(/^Numpad/, "Numpad ")
+}
+
+const isEditable = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+interface UsePushToTalkOptions {
+  enabled: boolean
+  key: string
+  onPress: () => void
+  onRelease: () => void
+}
+
+/**
+ * Calls `onPress` when the talk key goes down anywhere on the page and
+ * `onRelease` when it comes back up. Key repeat is ignored, typing into form
+ * fields is left alone, and losing window focus counts as a release so the
+ * key cannot get stuck down.
+ */
+export function usePushToTalk({ enabled, key, onPress, onRelease }: UsePushToTalkOptions) {
+  const callbacks = useRef({ onPress, onRelease })
+  callbacks.current = { onPress, onRelease }
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let pressed = false
+
+    const release = () => {
+      if (pressed) {
+        pressed = false
+        callbacks.current.onRelease()
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== key || isEditable(event.target)) {
+        return
+      }
+      event.preventDefault()
+      if (!event.repeat && !pressed) {
+        pressed = true
+        callbacks.current.onPress()
+      }
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === key) {
+        event.preventDefault()
+        release()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", release)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", release)
+      release()
+    }
+  }, [enabled, key])
+}
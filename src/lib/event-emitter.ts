@@ -0,0 +1,33 @@
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. A handler that throws is logged and does not
+ * prevent the remaining handlers from running.
+ */
+export class TypedEventEmitter<Events> {
+  private listeners = new Map<keyof Events, Set<EventHandler<Events[keyof Events]>>>();
+
+  constructor(private readonly logPrefix: string) {}
+
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler as EventHandler<Events[keyof Events]>);
+    return () => {
+      handlers.delete(handler as EventHandler<Events[keyof Events]>);
+    };
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners.get(event)?.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`${this.logPrefix} ${String(event)} handler failed:`, error);
+      }
+    });
+  }
+}
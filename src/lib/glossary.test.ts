@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseGlossaryCsv, type Glossary } from './glossary';
+
+// Entries without the random ids, for comparison.
+const terms = (glossary: Glossary) =>
+  glossary.entries.map(({ source, target, sourceLanguage, targetLanguage }) => [source, target, sourceLanguage, targetLanguage]);
+
+describe('parseGlossaryCsv', () => {
+  it('reads plain rows with the given language pair', () => {
+    const glossary = parseGlossaryCsv('Vorstand,board\nAufsichtsrat,supervisory board\n', 'de', 'en');
+    expect(terms(glossary)).toEqual([
+      ['Vorstand', 'board', 'de', 'en'],
+      ['Aufsichtsrat', 'supervisory board', 'de', 'en'],
+    ]);
+    expect(glossary.doNotTranslate).toEqual([]);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted fields', () => {
+    const csv = '"Müller, Schmidt & Co.",Müller Schmidt\n"der ""Plan""","the ""plan"""\n"Zeile\neins",line one\n';
+    expect(terms(parseGlossaryCsv(csv, 'de', 'en'))).toEqual([
+      ['Müller, Schmidt & Co.', 'Müller Schmidt', 'de', 'en'],
+      ['der "Plan"', 'the "plan"', 'de', 'en'],
+      ['Zeile\neins', 'line one', 'de', 'en'],
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    const csv = '\uFEFFsource,target\r\nVorstand,board\r\n\r\n,\r\nBilanz,balance sheet';
+    expect(terms(parseGlossaryCsv(csv, 'de', 'en'))).toEqual([
+      ['Vorstand', 'board', 'de', 'en'],
+      ['Bilanz', 'balance sheet', 'de', 'en'],
+    ]);
+  });
+
+  it('skips a header row only when it starts with source', () => {
+    expect(terms(parseGlossaryCsv(' Source , Target \nVorstand,board', 'de', 'en'))).toEqual([
+      ['Vorstand', 'board', 'de', 'en'],
+    ]);
+    expect(terms(parseGlossaryCsv('term,translation\nVorstand,board', 'de', 'en'))).toEqual([
+      ['term', 'translation', 'de', 'en'],
+      ['Vorstand', 'board', 'de', 'en'],
+    ]);
+  });
+
+  it('uses per-row languages and turns rows without a target into protected names', () => {
+    const csv = 'source,target,source_language,target_language\nboard,conseil,en,fr\nKubernetes,\n"Acme, Inc."\n';
+    const glossary = parseGlossaryCsv(csv, 'de', 'en');
+    expect(terms(glossary)).toEqual([['board', 'conseil', 'en', 'fr']]);
+    expect(glossary.doNotTranslate).toEqual(['Kubernetes', 'Acme, Inc.']);
+  });
+});
@@ -0,0 +1,167 @@
+import { isUnspacedScript } from '@/lib/segmentation';
+
+export interface GlossaryEntry {
+  id: string;
+  /** Term as it is spoken in `sourceLanguage`. */
+  source: string;
+  /** Translation the LLM must use for `targetLanguage`. */
+  target: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface Glossary {
+  entries: GlossaryEntry[];
+  /** Names and terms that stay as they are in every language. */
+  doNotTranslate: string[];
+}
+
+/** The glossary terms that occur in one segment. */
+export interface GlossaryMatch {
+  entries: GlossaryEntry[];
+  doNotTranslate: string[];
+}
+
+export const EMPTY_GLOSSARY: Glossary = {
+  entries: [],
+  doNotTranslate: [],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Case-insensitive search for `term` as a whole word. Terms are matched as
+ * plain substrings at edges written in Chinese, Japanese or Thai, which have
+ * no spaces to mark where a word starts.
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const trimmed = term.trim();
+  if (!trimmed) {
+    return false;
+  }
+  const first = trimmed.charAt(0);
+  const last = trimmed.slice(-1);
+  const before = WORD_CHAR.test(first) && !isUnspacedScript(first) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = WORD_CHAR.test(last) && !isUnspacedScript(last) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${escapeRegExp(trimmed)}${after}`, 'iu').test(text);
+}
+
+export function entriesForPair(glossary: Glossary, sourceLanguage: string, targetLanguage: string): GlossaryEntry[] {
+  return glossary.entries.filter(
+    entry => entry.sourceLanguage === sourceLanguage && entry.targetLanguage === targetLanguage
+  );
+}
+
+/** Glossary terms for the language pair that appear in `text`. */
+export function matchGlossary(
+  glossary: Glossary,
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): GlossaryMatch {
+  return {
+    entries: entriesForPair(glossary, sourceLanguage, targetLanguage).filter(
+      entry => entry.target.trim() && containsTerm(text, entry.source)
+    ),
+    doNotTranslate: glossary.doNotTranslate.filter(term => containsTerm(text, term)),
+  };
+}
+
+/** Required terms that `translation` left out, as they should have appeared. */
+export function findMissingTerms(translation: string, match: GlossaryMatch): string[] {
+  return [
+    ...match.entries.map(entry => entry.target.trim()),
+    ...match.doNotTranslate.map(term => term.trim()),
+  ].filter(term => !containsTerm(translation, term));
+}
+
+/** Splits CSV into rows of fields, following RFC 4180 quoting. */
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+/**
+ * Reads a glossary from CSV with the columns `source,target` and optionally
+ * `source_language,target_language`; rows without languages use the given
+ * pair. A row with an empty target adds the source term to the
+ * do-not-translate list. A header row starting with `source` is skipped.
+ */
+export function parseGlossaryCsv(csv: string, sourceLanguage: string, targetLanguage: string): Glossary {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'source') {
+    rows.shift();
+  }
+
+  const glossary: Glossary = { entries: [], doNotTranslate: [] };
+  rows.forEach(([source = '', target = '', rowSourceLanguage = '', rowTargetLanguage = '']) => {
+    if (!source.trim()) {
+      return;
+    }
+    if (!target.trim()) {
+      glossary.doNotTranslate.push(source.trim());
+      return;
+    }
+    glossary.entries.push({
+      id: crypto.randomUUID(),
+      source: source.trim(),
+      target: target.trim(),
+      sourceLanguage: rowSourceLanguage.trim() || sourceLanguage,
+      targetLanguage: rowTargetLanguage.trim() || targetLanguage,
+    });
+  });
+  return glossary;
+}
+
+/**
+ * Adds `imported` to `glossary`. Imported entries replace existing ones for
+ * the same term and language pair.
+ */
+export function mergeGlossary(glossary: Glossary, imported: Glossary): Glossary {
+  const key = (entry: GlossaryEntry) =>
+    `${entry.sourceLanguage}\u0000${entry.targetLanguage}\u0000${entry.source.toLowerCase()}`;
+  const replaced = new Set(imported.entries.map(key));
+  return {
+    entries: [...glossary.entries.filter(entry => !replaced.has(key(entry))), ...imported.entries],
+    doNotTranslate: Array.from(new Set([...glossary.doNotTranslate, ...imported.doNotTranslate])),
+  };
+}
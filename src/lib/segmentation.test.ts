@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  applyWordUpdate,
+  countWords,
+  endsSentence,
+  findSegmentBoundary,
+  joinTokens,
+  type SegmentationSettings,
+  type SegmentationWord,
+} from './segmentation';
+
+const settings = (overrides: Partial<SegmentationSettings> = {}): SegmentationSettings => ({
+  strategy: 'hybrid',
+  pauseMs: 700,
+  minWords: 3,
+  maxWords: 30,
+  ...overrides,
+});
+
+// Words 0.3 s long, 0.1 s apart, with an extra pause before the given indices.
+const timed = (text: string, pausesBefore: number[] = [], pauseSeconds = 1): SegmentationWord[] => {
+  let time = 0;
+  return text.split(' ').map((word, index) => {
+    if (pausesBefore.includes(index)) {
+      time += pauseSeconds;
+    }
+    const entry = { word, startTime: time, endTime: time + 0.3 };
+    time += 0.4;
+    return entry;
+  });
+};
+
+describe('findSegmentBoundary', () => {
+  it('cuts at a pause with the pause strategy and ignores punctuation', () => {
+    const words = timed('one two. three four five six', [4]);
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause' }))).toBe(4);
+  });
+
+  it('cuts after sentence punctuation with the punctuation strategy and ignores pauses', () => {
+    const words = timed('one two three four five. six seven', [3]);
+    expect(findSegmentBoundary(words, settings({ strategy: 'punctuation' }))).toBe(5);
+  });
+
+  it('cuts at whichever comes first with the hybrid strategy', () => {
+    expect(findSegmentBoundary(timed('one two three four five. six', [3]), settings())).toBe(3);
+    expect(findSegmentBoundary(timed('one two. three four five six', [4]), settings())).toBe(2);
+  });
+
+  it('keeps growing without a pause, punctuation or word limit', () => {
+    expect(findSegmentBoundary(timed('one two three four five'), settings())).toBeNull();
+  });
+
+  it('ignores pauses until the segment has minWords words', () => {
+    const words = timed('one two three four five six', [2, 5]);
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause', minWords: 3 }))).toBe(5);
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause', minWords: 2 }))).toBe(2);
+  });
+
+  it('ignores pauses shorter than pauseMs', () => {
+    const words = timed('one two three four five', [3], 0.5);
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause', pauseMs: 700 }))).toBeNull();
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause', pauseMs: 500 }))).toBe(3);
+  });
+
+  it('does not cut after a word whose end time is still null', () => {
+    const words = timed('one two three four five', [3]);
+    words[2] = { ...words[2], endTime: null };
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause' }))).toBeNull();
+  });
+
+  it('does not cut at a pause before the next word has arrived', () => {
+    expect(findSegmentBoundary(timed('one two three'), settings({ strategy: 'pause' }))).toBeNull();
+  });
+
+  it('cuts at maxWords whatever the strategy', () => {
+    const words = timed('a b c d e f g');
+    expect(findSegmentBoundary(words, settings({ strategy: 'pause', maxWords: 5 }))).toBe(5);
+    expect(findSegmentBoundary(words, settings({ strategy: 'punctuation', maxWords: 5 }))).toBe(5);
+  });
+
+  it('counts Chinese words rather than single-character tokens towards maxWords', () => {
+    const characters = Array.from('我们明天去北京看长城').map((word, index) => ({
+      word,
+      startTime: index * 0.2,
+      endTime: index * 0.2 + 0.1,
+    }));
+    const boundary = findSegmentBoundary(characters, settings({ strategy: 'punctuation', maxWords: 4 }), 'zh');
+    expect(boundary).not.toBeNull();
+    expect(boundary!).toBeGreaterThan(4);
+    expect(countWords(joinTokens(characters.slice(0, boundary!).map(token => token.word)), 'zh')).toBe(4);
+  });
+
+  it('cuts Japanese after a full stop', () => {
+    const words = ['今日は', '晴れ', 'です。', '明日は'].map((word, index) => ({ word, startTime: index, endTime: index + 0.5 }));
+    expect(findSegmentBoundary(words, settings({ strategy: 'punctuation' }), 'ja')).toBe(3);
+  });
+});
+
+describe('countWords', () => {
+  it('counts dictionary words in scripts without spaces', () => {
+    expect(countWords('hello there friend', 'en')).toBe(3);
+    expect(countWords('今日は晴れですね', 'ja')).toBeGreaterThan(1);
+    expect(countWords('我们明天去北京', 'zh')).toBeGreaterThan(1);
+    expect(countWords('ผมชอบกินข้าวมาก', 'th')).toBeGreaterThan(1);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    const segmenter = Intl.Segmenter;
+
+    afterEach(() => {
+      Object.defineProperty(Intl, 'Segmenter', { value: segmenter, configurable: true, writable: true });
+    });
+
+    it('falls back to splitting on whitespace', () => {
+      Reflect.deleteProperty(Intl, 'Segmenter');
+      // A locale no other test uses, so no cached segmenter is picked up.
+      expect(countWords('eins zwei  drei', 'de-CH')).toBe(3);
+      expect(endsSentence('Guten Tag.', 'de-CH')).toBe(true);
+      expect(endsSentence('Guten Tag', 'de-CH')).toBe(false);
+    });
+  });
+});
+
+describe('endsSentence', () => {
+  it('recognizes sentence ends across scripts', () => {
+    expect(endsSentence('Hello.', 'en')).toBe(true);
+    expect(endsSentence('"Really?"', 'en')).toBe(true);
+    expect(endsSentence('Hello', 'en')).toBe(false);
+    expect(endsSentence('今日は晴れです。', 'ja')).toBe(true);
+    expect(endsSentence('我们走吧！', 'zh')).toBe(true);
+    expect(endsSentence('안녕하세요.', 'ko')).toBe(true);
+  });
+
+  it('finds no sentence end in Thai, which has no sentence punctuation', () => {
+    expect(endsSentence('สวัสดีครับ', 'th')).toBe(false);
+  });
+});
+
+describe('joinTokens', () => {
+  it('only puts spaces between words of spaced scripts', () => {
+    expect(joinTokens(['hello', 'world'])).toBe('hello world');
+    expect(joinTokens(['今日', 'は', '晴れ'])).toBe('今日は晴れ');
+    expect(joinTokens(['我', '和', 'AI'])).toBe('我和AI');
+    expect(joinTokens([' padded ', '', 'tokens'])).toBe('padded tokens');
+  });
+});
+
+describe('applyWordUpdate', () => {
+  it('revises a word in place and appends new ones', () => {
+    const words = [{ word: 'hello', startTime: 0, endTime: null }];
+    expect(applyWordUpdate(words, { word: 'hello,', startTime: 0, endTime: 0.3 })).toEqual([
+      { word: 'hello,', startTime: 0, endTime: 0.3 },
+    ]);
+    expect(applyWordUpdate(words, { word: 'world', startTime: 0.4, endTime: null })).toHaveLength(2);
+  });
+
+  it('drops the stable version of a sentence-final word that was already committed', () => {
+    let words = applyWordUpdate([], { word: 'hello', startTime: 0, endTime: 0.3 })!;
+    words = applyWordUpdate(words, { word: 'world.', startTime: 0.4, endTime: null })!;
+
+    // The full stop ends the segment before eaRS has settled the word.
+    const boundary = findSegmentBoundary(words, settings({ strategy: 'punctuation' }));
+    expect(boundary).toBe(2);
+    const committedUntil = words[boundary! - 1].startTime!;
+
+    expect(applyWordUpdate([], { word: 'world.', startTime: 0.4, endTime: 0.7 }, committedUntil)).toBeNull();
+    expect(applyWordUpdate([], { word: 'Next', startTime: 1.5, endTime: null }, committedUntil)).toEqual([
+      { word: 'Next', startTime: 1.5, endTime: null },
+    ]);
+  });
+});
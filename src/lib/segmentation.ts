@@ -0,0 +1,205 @@
+export type SegmentationStrategy = 'punctuation' | 'pause' | 'hybrid';
+
+export interface SegmentationSettings {
+  /**
+   * `punctuation` cuts after sentence-final punctuation, `pause` cuts where
+   * the recognizer's word timings show a silence, `hybrid` does both.
+   */
+  strategy: SegmentationStrategy;
+  /** Gap between one word's end and the next word's start that counts as a pause. */
+  pauseMs: number;
+  /** Pauses are ignored until the segment has at least this many words. */
+  minWords: number;
+  /** Segments are cut at this length whatever the strategy. */
+  maxWords: number;
+}
+
+export interface SegmentationWord {
+  word: string;
+  startTime?: number;
+  endTime?: number | null;
+}
+
+// Sentence terminators of the scripts we translate from, optionally followed
+// by closing quotes or brackets (including the CJK corner brackets).
+const SENTENCE_END = /[.!?。！？｡．؟।॥]["'”’)\]」』）]*$/;
+
+// Scripts written without spaces between words.
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\u3000-\u303f\uff00-\uffef]/u;
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+/** Cached segmenter for `locale`, or null where Intl.Segmenter is missing. */
+function getSegmenter(locale: string | undefined, granularity: 'word' | 'sentence'): Intl.Segmenter | null {
+  const key = `${granularity}:${locale ?? ''}`;
+  if (!segmenters.has(key)) {
+    let segmenter: Intl.Segmenter | null = null;
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+      try {
+        segmenter = new Intl.Segmenter(locale, { granularity });
+      } catch {
+        segmenter = new Intl.Segmenter(undefined, { granularity });
+      }
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenters.get(key) ?? null;
+}
+
+/**
+ * Counts words the way the language does: dictionary-based for Chinese,
+ * Japanese and Thai, whitespace-separated elsewhere. Falls back to splitting
+ * on whitespace in browsers without Intl.Segmenter.
+ */
+export function countWords(text: string, locale?: string): number {
+  const segmenter = getSegmenter(locale, 'word');
+  if (!segmenter) {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+  }
+
+  let count = 0;
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Whether `text` ends with a complete sentence, using the Unicode sentence
+ * rules for `locale` (falling back to a list of common terminators).
+ */
+export function endsSentence(text: string, locale?: string): boolean {
+  const trimmed = text.trim();
+  const segmenter = getSegmenter(locale, 'sentence');
+  if (!trimmed || !segmenter) {
+    return SENTENCE_END.test(trimmed);
+  }
+
+  // The end of the input always counts as a boundary, so a probe sentence is
+  // appended to see whether the text would still end there.
+  const probe = `${trimmed} A`;
+  for (const segment of segmenter.segment(probe)) {
+    if (segment.index === trimmed.length + 1) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Splits `text` into sentences for `locale`, keeping the whitespace after
+ * each one so the parts join back into `text`. While text is still arriving
+ * the last part may be an unfinished sentence.
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+  const segmenter = getSegmenter(locale, 'sentence');
+  if (!segmenter) {
+    return text.split(/(?<=[.!?。！？｡．؟।॥]["'”’)\]」』）]*\s+)/).filter(Boolean);
+  }
+  return Array.from(segmenter.segment(text), segment => segment.segment);
+}
+
+/**
+ * Joins recognizer tokens into text. Tokens are separated by a space except
+ * where the script on either side is written without spaces.
+ */
+export function joinTokens(tokens: string[]): string {
+  let text = '';
+  tokens
+    .map(token => token.trim())
+    .filter(Boolean)
+    .forEach(token => {
+      if (text && needsSpaceBetween(text, token)) {
+        text += ' ';
+      }
+      text += token;
+    });
+  return text;
+}
+
+/** Whether `char` belongs to a script written without spaces between words. */
+export function isUnspacedScript(char: string): boolean {
+  return UNSPACED_SCRIPT.test(char);
+}
+
+export function needsSpaceBetween(before: string, after: string): boolean {
+  return !isUnspacedScript(before.slice(-1)) && !isUnspacedScript(after.charAt(0));
+}
+
+const usesPunctuation = (strategy: SegmentationStrategy) => strategy === 'punctuation' || strategy === 'hybrid';
+const usesPauses = (strategy: SegmentationStrategy) => strategy === 'pause' || strategy === 'hybrid';
+
+/**
+ * Seconds of silence between `word` and `next`, or null when the timings
+ * needed are missing or the first word is still being revised.
+ */
+function gapAfter(word: SegmentationWord, next: SegmentationWord): number | null {
+  if (typeof word.endTime !== 'number' || typeof next.startTime !== 'number') {
+    return null;
+  }
+  return next.startTime - word.endTime;
+}
+
+/**
+ * Finds where the live partial should be cut. Returns the number of leading
+ * recognizer tokens that form a complete segment, or null if it should keep
+ * growing. The tokens after the cut stay in the partial, so callers should
+ * call this again on the remainder.
+ *
+ * Word limits count linguistic words in `locale`, since a recognizer token
+ * can hold several Chinese or Japanese words, or a single character.
+ */
+export function findSegmentBoundary(
+  words: SegmentationWord[],
+  settings: SegmentationSettings,
+  locale?: string
+): number | null {
+  for (let i = 0; i < words.length; i++) {
+    const length = i + 1;
+    // Counted on the joined text, since a word can span several tokens.
+    const wordCount = countWords(joinTokens(words.slice(0, length).map(word => word.word)), locale);
+
+    if (usesPunctuation(settings.strategy) && endsSentence(words[i].word, locale)) {
+      return length;
+    }
+
+    if (wordCount >= settings.maxWords) {
+      return length;
+    }
+
+    if (usesPauses(settings.strategy) && wordCount >= settings.minWords && i + 1 < words.length) {
+      const gap = gapAfter(words[i], words[i + 1]);
+      if (gap !== null && gap * 1000 >= settings.pauseMs) {
+        return length;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Applies a recognizer word update to the live partial. A word with the start
+ * time of one already there revises it; anything else is appended. Returns
+ * null for a revision of a word at or before `committedUntil`: a segment can
+ * be cut on a word that is still being revised, and its stable version must
+ * not come back as a segment of its own.
+ */
+export function applyWordUpdate<T extends SegmentationWord>(
+  words: T[],
+  update: T,
+  committedUntil: number | null = null
+): T[] | null {
+  const { startTime } = update;
+  if (typeof startTime === 'number' && committedUntil !== null && startTime <= committedUntil) {
+    return null;
+  }
+
+  const existingIndex = typeof startTime === 'number' ? words.findIndex(word => word.startTime === startTime) : -1;
+  if (existingIndex === -1) {
+    return [...words, update];
+  }
+  return words.map((word, index) => (index === existingIndex ? update : word));
+}
@@ -0,0 +1,19 @@
+const STORAGE_PREFIX = 'trnsltr.';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`[Storage] Failed to load ${key}:`, error);
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`[Storage] Failed to save ${key}:`, error);
+  }
+}
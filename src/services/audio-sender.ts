@@ -0,0 +1,169 @@
+export type BackpressurePolicy = 'drop-oldest' | 'coalesce' | 'pause';
+
+export interface AudioTransport {
+  sendAudio(samples: Float32Array): boolean;
+  isConnected(): boolean;
+  readonly bufferedAmount: number;
+}
+
+export interface AudioSenderOptions {
+  policy: BackpressurePolicy;
+  /** Socket bytes in flight above which frames are held back. */
+  maxBufferedBytes: number;
+  /** Audio allowed to wait in the local queue before frames are dropped. */
+  maxQueueMs: number;
+  sampleRate: number;
+  /** Called for every frame that actually reached the socket. */
+  onSent?: (samples: Float32Array) => void;
+}
+
+export interface AudioSenderStats {
+  sentFrames: number;
+  droppedFrames: number;
+  queuedFrames: number;
+  /** Audio waiting locally plus audio still buffered in the socket, in ms. */
+  lagMs: number;
+}
+
+const BYTES_PER_SAMPLE = 4;
+const DRAIN_INTERVAL_MS = 50;
+
+/**
+ * Sends capture frames to the recognizer without letting latency grow
+ * unbounded on slow links. While the socket has more than
+ * `maxBufferedBytes` queued, frames wait locally and the policy decides what
+ * happens once that queue is full:
+ *
+ * - `drop-oldest` discards the oldest queued audio, keeping latency bounded.
+ * - `coalesce` does the same, but flushes everything queued as one frame when
+ *   the socket drains, trading frame overhead for fewer sends.
+ * - `pause` keeps the queued audio intact and discards new frames instead.
+ */
+export class AudioSender {
+  private queue: Float32Array[] = [];
+  private queuedSamples = 0;
+  private sentFrames = 0;
+  private droppedFrames = 0;
+  private drainTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private transport: AudioTransport, private options: AudioSenderOptions) {}
+
+  updateOptions(options: Partial<AudioSenderOptions>) {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  push(samples: Float32Array) {
+    if (samples.length === 0) {
+      return;
+    }
+
+    if (this.queue.length === 0 && this.canSend()) {
+      this.send(samples);
+      return;
+    }
+
+    this.enqueue(samples);
+    this.pump();
+  }
+
+  getStats(): AudioSenderStats {
+    const socketSamples = this.transport.bufferedAmount / BYTES_PER_SAMPLE;
+    return {
+      sentFrames: this.sentFrames,
+      droppedFrames: this.droppedFrames,
+      queuedFrames: this.queue.length,
+      lagMs: ((this.queuedSamples + socketSamples) / this.options.sampleRate) * 1000,
+    };
+  }
+
+  /** Discards audio that has not been sent yet. */
+  clear() {
+    this.queue = [];
+    this.queuedSamples = 0;
+    this.stopDrainTimer();
+  }
+
+  /** Discards queued audio and resets the counters. */
+  reset() {
+    this.clear();
+    this.sentFrames = 0;
+    this.droppedFrames = 0;
+  }
+
+  dispose() {
+    this.reset();
+  }
+
+  private canSend(): boolean {
+    return this.transport.isConnected() && this.transport.bufferedAmount <= this.options.maxBufferedBytes;
+  }
+
+  private send(samples: Float32Array): boolean {
+    if (!this.transport.sendAudio(samples)) {
+      return false;
+    }
+    this.sentFrames += 1;
+    this.options.onSent?.(samples);
+    return true;
+  }
+
+  private enqueue(samples: Float32Array) {
+    const maxSamples = (this.options.maxQueueMs / 1000) * this.options.sampleRate;
+
+    if (this.options.policy === 'pause') {
+      if (this.queuedSamples + samples.length > maxSamples) {
+        this.droppedFrames += 1;
+        return;
+      }
+    } else {
+      while (this.queue.length > 0 && this.queuedSamples + samples.length > maxSamples) {
+        this.queuedSamples -= this.queue.shift()!.length;
+        this.droppedFrames += 1;
+      }
+    }
+
+    this.queue.push(samples);
+    this.queuedSamples += samples.length;
+  }
+
+  private pump() {
+    if (this.queue.length > 0 && this.canSend() && this.options.policy === 'coalesce' && this.queue.length > 1) {
+      const merged = new Float32Array(this.queuedSamples);
+      let offset = 0;
+      this.queue.forEach(frame => {
+        merged.set(frame, offset);
+        offset += frame.length;
+      });
+      this.queue = [merged];
+    }
+
+    while (this.queue.length > 0 && this.canSend()) {
+      const frame = this.queue[0];
+      if (!this.send(frame)) {
+        break;
+      }
+      this.queue.shift();
+      this.queuedSamples -= frame.length;
+    }
+
+    if (this.queue.length > 0) {
+      this.startDrainTimer();
+    } else {
+      this.stopDrainTimer();
+    }
+  }
+
+  private startDrainTimer() {
+    if (!this.drainTimer) {
+      this.drainTimer = setInterval(() => this.pump(), DRAIN_INTERVAL_MS);
+    }
+  }
+
+  private stopDrainTimer() {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+}
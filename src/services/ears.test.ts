@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EarsClient, type EarsStatus } from './ears';
+
+/** Stand-in for the browser WebSocket that the tests open and drop by hand. */
+class FakeWebSocket {
+  readyState = 0;
+  binaryType = 'blob';
+  bufferedAmount = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(readonly url: string) {}
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  /** Server accepted the connection. */
+  accept() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  /** Connection lost, e.g. because eaRS was restarted. */
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  get commands(): unknown[] {
+    return this.sent.filter((data): data is string => typeof data === 'string').map(data => JSON.parse(data));
+  }
+}
+
+const setup = (options: { maxReconnectAttempts?: number; maxBackoffMs?: number } = {}) => {
+  const sockets: FakeWebSocket[] = [];
+  const statuses: EarsStatus[] = [];
+  const client = new EarsClient('ws://ears.test', {
+    ...options,
+    createWebSocket: (url) => {
+      const socket = new FakeWebSocket(url);
+      sockets.push(socket);
+      return socket as unknown as WebSocket;
+    },
+  });
+  client.on('status', status => statuses.push(status));
+  const latest = () => sockets[sockets.length - 1];
+  return { client, sockets, statuses, latest };
+};
+
+describe('EarsClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to maxBackoffMs', () => {
+    const { client, statuses, latest } = setup({ maxBackoffMs: 8000 });
+    client.connect();
+
+    const delays: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      latest().drop();
+      const status = statuses[statuses.length - 1];
+      expect(status.state).toBe('reconnecting');
+      delays.push(status.delayMs!);
+      vi.advanceTimersByTime(status.delayMs!);
+    }
+
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 8000, 8000]);
+  });
+
+  it('retries indefinitely by default and reports no attempt limit', () => {
+    const { client, statuses, latest } = setup();
+    client.connect();
+
+    for (let i = 0; i < 50; i++) {
+      latest().drop();
+      vi.advanceTimersByTime(statuses[statuses.length - 1].delayMs!);
+    }
+
+    const last = statuses.filter(status => status.state === 'reconnecting').pop()!;
+    expect(last.attempt).toBe(50);
+    expect(last.maxAttempts).toBeUndefined();
+    expect(last.delayMs).toBe(30000);
+    expect(statuses.some(status => status.state === 'failed')).toBe(false);
+  });
+
+  it('gives up after maxReconnectAttempts', () => {
+    const { client, statuses, latest } = setup({ maxReconnectAttempts: 2 });
+    client.connect();
+
+    latest().drop();
+    vi.advanceTimersByTime(1000);
+    latest().drop();
+    vi.advanceTimersByTime(2000);
+    latest().drop();
+
+    expect(statuses[statuses.length - 1]).toEqual({ state: 'failed', attempt: 2, maxAttempts: 2 });
+  });
+
+  it('resets the backoff once a connection succeeds', () => {
+    const { client, statuses, latest } = setup();
+    client.connect();
+
+    latest().drop();
+    vi.advanceTimersByTime(1000);
+    latest().drop();
+    vi.advanceTimersByTime(2000);
+    latest().accept();
+    latest().drop();
+
+    expect(statuses[statuses.length - 1]).toMatchObject({ state: 'reconnecting', attempt: 1, delayMs: 1000 });
+  });
+
+  it('resends the session language when the connection comes back', () => {
+    const { client, statuses, sockets, latest } = setup();
+    client.connect();
+    latest().accept();
+    client.start('de');
+    client.setLanguage('fr');
+
+    latest().drop();
+    vi.advanceTimersByTime(1000);
+    latest().accept();
+
+    expect(sockets).toHaveLength(2);
+    expect(sockets[1].commands).toEqual([{ type: 'setlanguage', lang: 'fr' }]);
+    expect(statuses[statuses.length - 1]).toEqual({ state: 'connected', resumed: true });
+  });
+
+  it('does not resend a language after the session was stopped', () => {
+    const { client, statuses, sockets, latest } = setup();
+    client.connect();
+    latest().accept();
+    client.start('de');
+    client.stop();
+
+    latest().drop();
+    vi.advanceTimersByTime(1000);
+    latest().accept();
+
+    expect(sockets[1].commands).toEqual([]);
+    expect(statuses[statuses.length - 1]).toEqual({ state: 'connected', resumed: false });
+  });
+
+  it('sends stop to the server unless notifyServer is false', () => {
+    const { client, latest } = setup();
+    client.connect();
+    latest().accept();
+
+    client.start('en');
+    expect(client.stop()).toBe(true);
+    client.start('en');
+    expect(client.stop({ notifyServer: false })).toBe(false);
+
+    expect(latest().commands).toEqual([
+      { type: 'setlanguage', lang: 'en' },
+      { type: 'stop' },
+      { type: 'setlanguage', lang: 'en' },
+    ]);
+  });
+
+  it('does not reconnect after disconnect', () => {
+    const { client, sockets, latest } = setup();
+    client.connect();
+    latest().accept();
+
+    client.disconnect();
+    vi.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+    expect(client.isConnected()).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+import { TypedEventEmitter, type EventHandler } from '@/lib/event-emitter';
+import type { SpeechRecognizer } from '@/services/speech-recognizer';
+
+export interface EarsWord {
+  word: string;
+  start_time: number;
+  end_time: number | null;
+}
+
+export interface EarsWordMessage {
+  type: 'word';
+  word: string;
+  start_time?: number;
+  end_time?: number | null;
+}
+
+export interface EarsFinalMessage {
+  type: 'final';
+  text?: string;
+  words?: EarsWord[];
+}
+
+export interface EarsErrorMessage {
+  type: 'error';
+  message?: string;
+}
+
+export interface EarsWhisperProcessingMessage {
+  type: 'whisper_processing';
+  sentence_id: string;
+  original_text?: string;
+  start_time?: number;
+  end_time?: number;
+}
+
+export interface EarsWhisperCompleteMessage {
+  type: 'whisper_complete';
+  sentence_id: string;
+  original_text?: string;
+  corrected_text?: string;
+  confidence?: number;
+  changed?: boolean;
+  start_time?: number;
+  end_time?: number;
+}
+
+/** Error message eaRS sends to a client that streams while another client is streaming. */
+export const EARS_SERVER_BUSY = 'server busy';
+
+export type EarsMessage =
+  | EarsWordMessage
+  | EarsFinalMessage
+  | EarsErrorMessage
+  | EarsWhisperProcessingMessage
+  | EarsWhisperCompleteMessage;
+
+export type EarsConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed';
+
+export interface EarsStatus {
+  state: EarsConnectionState;
+  attempt?: number;
+  /** Omitted when the client retries indefinitely. */
+  maxAttempts?: number;
+  delayMs?: number;
+  /** Set on `connected` when a transcription session was resumed after a drop. */
+  resumed?: boolean;
+}
+
+export interface EarsClientEvents {
+  word: EarsWordMessage;
+  final: EarsFinalMessage;
+  error: EarsErrorMessage;
+  whisper_processing: EarsWhisperProcessingMessage;
+  whisper_complete: EarsWhisperCompleteMessage;
+  status: EarsStatus;
+}
+
+export type EarsEventHandler<K extends keyof EarsClientEvents> = EventHandler<EarsClientEvents[K]>;
+
+export type WebSocketFactory = (url: string) => WebSocket;
+
+export interface EarsClientOptions {
+  /** Defaults to retrying forever; the delay is capped at `maxBackoffMs`. */
+  maxReconnectAttempts?: number;
+  maxBackoffMs?: number;
+  createWebSocket?: WebSocketFactory;
+}
+
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+
+export class EarsClient extends TypedEventEmitter<EarsClientEvents> implements SpeechRecognizer {
+  readonly acceptsAudio = true;
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private closedByUser = false;
+  private sessionLanguage: string | null = null;
+  private readonly maxReconnectAttempts: number;
+  private readonly maxBackoffMs: number;
+  private readonly createWebSocket: WebSocketFactory;
+
+  constructor(private wsUrl: string, options: EarsClientOptions = {}) {
+    super('[Ears]');
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? Infinity;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000;
+    this.createWebSocket = options.createWebSocket ?? ((url) => new WebSocket(url));
+  }
+
+  /**
+   * Opens the connection, resetting the reconnect counter. Safe to call while
+   * a connection is already open or in progress.
+   */
+  connect() {
+    this.closedByUser = false;
+    this.reconnectAttempts = 0;
+    this.clearReconnectTimeout();
+    this.open();
+  }
+
+  private open() {
+    if (this.ws?.readyState === WS_OPEN || this.ws?.readyState === WS_CONNECTING) {
+      return;
+    }
+
+    if (this.ws) {
+      this.detach(this.ws);
+      this.ws.close();
+      this.ws = null;
+    }
+
+    try {
+      this.emit('status', { state: 'connecting' });
+      const ws = this.createWebSocket(this.wsUrl);
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+
+      ws.onopen = () => {
+        this.reconnectAttempts = 0;
+        console.log('Connected to ears WebSocket server');
+        // A fresh connection starts with the server's default language, so an
+        // interrupted session is restored before any buffered audio goes out.
+        const resumed = this.sessionLanguage !== null;
+        if (resumed) {
+          this.send(JSON.stringify({ type: 'setlanguage', lang: this.sessionLanguage }));
+        }
+        this.emit('status', { state: 'connected', resumed });
+      };
+
+      ws.onmessage = (event) => {
+        this.handleMessage(event.data);
+      };
+
+      ws.onclose = () => {
+        if (this.ws === ws) {
+          this.ws = null;
+        }
+        console.log('Disconnected from ears WebSocket server');
+        this.emit('status', { state: 'disconnected' });
+        this.scheduleReconnect();
+      };
+
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+    } catch (error) {
+      console.error('Failed to connect WebSocket:', error);
+      this.emit('status', { state: 'failed' });
+    }
+  }
+
+  private handleMessage(data: unknown) {
+    if (typeof data !== 'string') {
+      return;
+    }
+
+    let message: EarsMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to parse WebSocket message:', error);
+      return;
+    }
+
+    console.log('[WebSocket Message]', message);
+
+    switch (message.type) {
+      case 'word':
+        this.emit('word', message);
+        break;
+      case 'final':
+        this.emit('final', message);
+        break;
+      case 'error':
+        this.emit('error', message);
+        break;
+      case 'whisper_processing':
+        this.emit('whisper_processing', message);
+        break;
+      case 'whisper_complete':
+        this.emit('whisper_complete', message);
+        break;
+      default:
+        console.warn('[Ears] Unknown message type:', (message as { type?: string }).type);
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.closedByUser) {
+      return;
+    }
+
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.emit('status', { state: 'failed', attempt: this.reconnectAttempts, maxAttempts: this.maxReconnectAttempts });
+      return;
+    }
+
+    const delayMs = Math.min(1000 * Math.pow(2, Math.min(this.reconnectAttempts, 30)), this.maxBackoffMs);
+    this.reconnectAttempts += 1;
+    this.emit('status', {
+      state: 'reconnecting',
+      attempt: this.reconnectAttempts,
+      maxAttempts: Number.isFinite(this.maxReconnectAttempts) ? this.maxReconnectAttempts : undefined,
+      delayMs,
+    });
+
+    this.clearReconnectTimeout();
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, delayMs);
+  }
+
+  private clearReconnectTimeout() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private detach(ws: WebSocket) {
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onclose = null;
+    ws.onerror = null;
+  }
+
+  private send(data: string | ArrayBufferLike | ArrayBufferView): boolean {
+    if (this.ws?.readyState !== WS_OPEN) {
+      return false;
+    }
+    this.ws.send(data);
+    return true;
+  }
+
+  /**
+   * Starts a transcription session. eaRS has no explicit start command, so
+   * this only selects the language ahead of the first audio frame. The
+   * language is sent again whenever the connection is re-established, until
+   * `stop` is called.
+   */
+  start(lang: string): boolean {
+    this.sessionLanguage = lang;
+    return this.setLanguage(lang);
+  }
+
+  /**
+   * Ends the session. With `notifyServer: false` the session is only
+   * forgotten locally, for when the server session belongs to another client.
+   */
+  stop({ notifyServer = true }: { notifyServer?: boolean } = {}): boolean {
+    this.sessionLanguage = null;
+    return notifyServer ? this.send(JSON.stringify({ type: 'stop' })) : false;
+  }
+
+  setLanguage(lang: string): boolean {
+    if (this.sessionLanguage !== null) {
+      this.sessionLanguage = lang;
+    }
+    return this.send(JSON.stringify({ type: 'setlanguage', lang }));
+  }
+
+  sendAudio(samples: Float32Array): boolean {
+    return this.send(samples);
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WS_OPEN;
+  }
+
+  /** Bytes queued on the socket but not yet handed to the network. */
+  get bufferedAmount(): number {
+    return this.ws?.bufferedAmount ?? 0;
+  }
+
+  disconnect() {
+    this.closedByUser = true;
+    this.sessionLanguage = null;
+    this.clearReconnectTimeout();
+    if (this.ws) {
+      this.detach(this.ws);
+      this.ws.close();
+      this.ws = null;
+    }
+    this.emit('status', { state: 'disconnected' });
+  }
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PartialTranslator } from './partial-translation';
+
+interface Call {
+  text: string;
+  signal: AbortSignal;
+  resolve: (translation: string | null) => void;
+}
+
+const setup = (intervalMs = 1000) => {
+  const calls: Call[] = [];
+  const translations: [string, string][] = [];
+  const translator = new PartialTranslator(
+    (text, signal) => new Promise(resolve => calls.push({ text, signal, resolve })),
+    (source, translation) => translations.push([source, translation]),
+    intervalMs
+  );
+  return { translator, calls, translations };
+};
+
+describe('PartialTranslator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('aborts the request in flight when newer text replaces it', async () => {
+    const { translator, calls, translations } = setup();
+    translator.update('hello');
+    vi.advanceTimersByTime(5000);
+    translator.update('hello there');
+    translator.update('hello there friend');
+
+    expect(calls.map(call => call.text)).toEqual(['hello', 'hello there']);
+    expect(calls[0].signal.aborted).toBe(true);
+
+    vi.advanceTimersByTime(5000);
+    expect(calls.map(call => call.text)).toEqual(['hello', 'hello there', 'hello there friend']);
+    expect(calls[1].signal.aborted).toBe(true);
+
+    calls[0].resolve('hallo');
+    calls[2].resolve('hallo da Freund');
+    await vi.runAllTimersAsync();
+
+    expect(translations).toEqual([['hello there friend', 'hallo da Freund']]);
+  });
+
+  it('sends nothing more once the text stops changing', async () => {
+    const { translator, calls } = setup();
+    translator.update('hello');
+    translator.update('hello');
+    calls[0].resolve('hallo');
+    await vi.runAllTimersAsync();
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('waits intervalMs between two requests', async () => {
+    const { translator, calls } = setup(1000);
+    translator.update('one');
+    translator.update('one two');
+    vi.advanceTimersByTime(200);
+    calls[0].resolve('eins');
+    await vi.advanceTimersByTimeAsync(700);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(calls.map(call => call.text)).toEqual(['one', 'one two']);
+  });
+
+  it('aborts the request in flight on cancel and drops its result', async () => {
+    const { translator, calls, translations } = setup();
+    translator.update('hello');
+    translator.cancel();
+    expect(calls[0].signal.aborted).toBe(true);
+
+    calls[0].resolve('hallo');
+    await vi.runAllTimersAsync();
+    expect(translations).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+export interface PartialTranslationSettings {
+  enabled: boolean;
+  /** Minimum time between two requests for the same live partial. */
+  intervalMs: number;
+}
+
+/** Resolves with the translation, or null if it failed or was cancelled. */
+export type PartialTranslateFn = (text: string, abortSignal: AbortSignal) => Promise<string | null>;
+
+/**
+ * Translates the live partial while it is still growing. Updates are
+ * throttled to one request per `intervalMs`, each request cancels the one
+ * before it, so at most one runs at a time, and only the latest text's
+ * translation is reported.
+ */
+export class PartialTranslator {
+  private intervalMs: number;
+  private pendingText = '';
+  private requestedText = '';
+  private lastRequestAt = -Infinity;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(
+    private translate: PartialTranslateFn,
+    private onTranslation: (source: string, translation: string) => void,
+    intervalMs: number
+  ) {
+    this.intervalMs = intervalMs;
+  }
+
+  updateInterval(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  /** Queues `text` for translation; an empty string cancels instead. */
+  update(text: string) {
+    this.pendingText = text.trim();
+    if (!this.pendingText) {
+      this.cancel();
+      return;
+    }
+    if (this.pendingText === this.requestedText || this.timer) {
+      return;
+    }
+
+    const wait = this.lastRequestAt + this.intervalMs - performance.now();
+    if (wait <= 0) {
+      this.request();
+    } else {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.request();
+      }, wait);
+    }
+  }
+
+  /** Drops the queued text and aborts the request in flight. */
+  cancel() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.pendingText = '';
+    this.requestedText = '';
+  }
+
+  private async request() {
+    const text = this.pendingText;
+    if (!text || text === this.requestedText) {
+      return;
+    }
+
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.requestedText = text;
+    this.lastRequestAt = performance.now();
+
+    const translation = await this.translate(text, controller.signal);
+    if (controller.signal.aborted || this.controller !== controller) {
+      return;
+    }
+    this.controller = null;
+    if (translation) {
+      this.onTranslation(text, translation);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import type { AppConfig } from '@/config/app-config';
+import type { EventHandler } from '@/lib/event-emitter';
+import { EarsClient, type EarsClientEvents } from '@/services/ears';
+import { WhisperHttpRecognizer } from '@/services/whisper-http';
+import { WebSpeechRecognizer } from '@/services/web-speech';
+
+export type SpeechRecognizerKind = 'ears' | 'whisper-http' | 'web-speech';
+
+/**
+ * Every backend reports results as eaRS-shaped messages, which is what the UI
+ * consumes. Only eaRS emits the `whisper_*` refinement events.
+ */
+export type SpeechRecognizerEvents = EarsClientEvents;
+
+export interface SpeechRecognizer {
+  /**
+   * Whether the recognizer takes 24 kHz f32 audio through `sendAudio`. Web
+   * Speech listens to the microphone itself and ignores it.
+   */
+  readonly acceptsAudio: boolean;
+  /** Bytes sent but not yet handed to the network, for backpressure. */
+  readonly bufferedAmount: number;
+
+  on<K extends keyof SpeechRecognizerEvents>(event: K, handler: EventHandler<SpeechRecognizerEvents[K]>): () => void;
+  connect(): void;
+  disconnect(): void;
+  isConnected(): boolean;
+
+  start(lang: string): boolean;
+  /** `notifyServer: false` ends the session locally only (see `EarsClient.stop`). */
+  stop(options?: { notifyServer?: boolean }): boolean;
+  setLanguage(lang: string): boolean;
+  sendAudio(samples: Float32Array): boolean;
+}
+
+export interface SpeechRecognizerInfo {
+  kind: SpeechRecognizerKind;
+  name: string;
+  /** Mirrors `SpeechRecognizer.acceptsAudio`, for use before an instance exists. */
+  acceptsAudio: boolean;
+}
+
+export const SPEECH_RECOGNIZERS: SpeechRecognizerInfo[] = [
+  { kind: 'ears', name: 'eaRS (streaming)', acceptsAudio: true },
+  { kind: 'whisper-http', name: 'Whisper server (OpenAI-compatible)', acceptsAudio: true },
+  { kind: 'web-speech', name: 'Browser speech recognition', acceptsAudio: false },
+];
+
+export function createSpeechRecognizer(kind: SpeechRecognizerKind, config: AppConfig): SpeechRecognizer {
+  switch (kind) {
+    case 'whisper-http':
+      return new WhisperHttpRecognizer({
+        baseUrl: config.transcriptionBaseUrl,
+        model: config.transcriptionModel,
+        apiKey: config.transcriptionApiKey,
+      });
+    case 'web-speech':
+      return new WebSpeechRecognizer();
+    case 'ears':
+    default:
+      return new EarsClient(config.earsWebSocketUrl);
+  }
+}
@@ -0,0 +1,145 @@
+export interface TranslationSchedulerOptions {
+  /** Requests allowed to run against the LLM at the same time. */
+  concurrency: number;
+  /** A running request is aborted after this long. */
+  timeoutMs: number;
+}
+
+interface QueuedTask {
+  start: () => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Runs translation requests with a concurrency limit. Each request gets its
+ * own AbortSignal, which fires when the request times out, when the caller's
+ * signal aborts, or on `cancelAll`. Requests still waiting for a slot are
+ * rejected with the abort reason instead.
+ */
+export class TranslationScheduler {
+  private queue: QueuedTask[] = [];
+  private running = new Set<AbortController>();
+
+  constructor(private options: TranslationSchedulerOptions) {}
+
+  updateOptions(options: Partial<TranslationSchedulerOptions>) {
+    this.options = { ...this.options, ...options };
+    this.next();
+  }
+
+  run<T>(task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queued: QueuedTask = {
+        start: () => {
+          signal?.removeEventListener('abort', dequeue);
+          const controller = new AbortController();
+          const abort = () => controller.abort(signal?.reason);
+          const timer = setTimeout(() => {
+            controller.abort(new DOMException(`Translation timed out after ${this.options.timeoutMs / 1000}s`, 'TimeoutError'));
+          }, this.options.timeoutMs);
+          signal?.addEventListener('abort', abort, { once: true });
+          this.running.add(controller);
+
+          task(controller.signal)
+            .then(resolve, reject)
+            .finally(() => {
+              clearTimeout(timer);
+              signal?.removeEventListener('abort', abort);
+              this.running.delete(controller);
+              this.next();
+            });
+        },
+        reject,
+      };
+
+      const dequeue = () => {
+        this.queue = this.queue.filter(item => item !== queued);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', dequeue, { once: true });
+
+      this.queue.push(queued);
+      this.next();
+    });
+  }
+
+  /** Aborts everything running and rejects everything waiting. */
+  cancelAll() {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(item => item.reject(new DOMException('Translation cancelled', 'AbortError')));
+    this.running.forEach(controller => controller.abort());
+  }
+
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  private next() {
+    while (this.running.size < Math.max(1, this.options.concurrency) && this.queue.length > 0) {
+      this.queue.shift()!.start();
+    }
+  }
+}
+
+/**
+ * Hands values to `deliver` in the order their slots were reserved. A slot
+ * can receive several values, e.g. the sentences of a translation as they
+ * stream in; values for later slots are held back until every earlier slot
+ * is closed. Used so translations are spoken in the order they were said.
+ */
+export class OrderedDelivery<T> {
+  private nextTicket = 0;
+  private slots: { ticket: number; closed: boolean; values: T[] }[] = [];
+
+  constructor(private deliver: (value: T) => void) {}
+
+  reserve(): number {
+    const ticket = this.nextTicket++;
+    this.slots.push({ ticket, closed: false, values: [] });
+    return ticket;
+  }
+
+  push(ticket: number, value: T) {
+    const slot = this.slots.find(item => item.ticket === ticket);
+    if (!slot || slot.closed) {
+      return;
+    }
+    slot.values.push(value);
+    this.flush();
+  }
+
+  /** Marks a slot as complete; a no-op once closed. */
+  close(ticket: number) {
+    const slot = this.slots.find(item => item.ticket === ticket);
+    if (!slot || slot.closed) {
+      return;
+    }
+    slot.closed = true;
+    this.flush();
+  }
+
+  clear() {
+    this.slots = [];
+  }
+
+  private flush() {
+    while (this.slots.length > 0) {
+      const head = this.slots[0];
+      head.values.splice(0).forEach(value => this.deliver(value));
+      if (!head.closed) {
+        return;
+      }
+      this.slots.shift();
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
-import { generateText } from 'ai';
+import { streamText } from 'ai';
 import { getConfig } from '@/config/app-config';
 import prompts from '@/config/prompts.json';
+import type { GlossaryMatch } from '@/lib/glossary';
 
 const config = getConfig();
 
@@ -10,10 +11,24 @@ const lmstudio = createOpenAICompatible({
   baseURL: config.localLlmBaseUrl,
 });
 
+/** An earlier segment and its accepted translation. */
+export interface TranslationContextEntry {
+  source: string;
+  translation: string;
+}
+
 export interface TranslationRequest {
   text: string;
   sourceLanguage: string;
   targetLanguage: string;
+  /** Preceding segments, oldest first, sent as context but not translated. */
+  context?: TranslationContextEntry[];
+  /** Glossary terms that occur in `text`. */
+  glossary?: GlossaryMatch;
+  /** Cancels the request, e.g. when a newer partial supersedes it or it times out. */
+  abortSignal?: AbortSignal;
+  /** Called with the translation so far each time the LLM streams more of it. */
+  onText?: (translatedText: string) => void;
 }
 
 export interface TranslationResponse {
@@ -25,28 +40,72 @@ function interpolatePrompt(template: string, variables: Record<string, string>):
   return template.replace(/\{\{(\w+)\}\}/g, (_, key) => variables[key] || '');
 }
 
+function formatContext(context: TranslationContextEntry[]): string {
+  if (context.length === 0) {
+    return '';
+  }
+  const segments = context
+    .map(entry => `Original: ${entry.source}\nTranslation: ${entry.translation}`)
+    .join('\n\n');
+  return interpolatePrompt(prompts.translation.context, { segments });
+}
+
+function formatGlossary(glossary: GlossaryMatch | undefined): string {
+  if (!glossary || glossary.entries.length + glossary.doNotTranslate.length === 0) {
+    return '';
+  }
+  const terms = [
+    ...glossary.entries.map(entry => `- "${entry.source}" must be translated as "${entry.target}"`),
+    ...glossary.doNotTranslate.map(term => `- "${term}" must be kept as is, not translated`),
+  ].join('\n');
+  return interpolatePrompt(prompts.translation.glossary, { terms });
+}
+
 export async function translateText({
   text,
   sourceLanguage,
   targetLanguage,
+  context = [],
+  glossary,
+  abortSignal,
+  onText,
 }: TranslationRequest): Promise<TranslationResponse> {
   try {
     const prompt = interpolatePrompt(prompts.translation.user, {
       sourceLanguage,
       targetLanguage,
       text,
+      context: formatContext(context),
+      glossary: formatGlossary(glossary),
     });
 
     console.log('=== LLM Request ===');
     console.log('System Prompt:', prompts.translation.system);
     console.log('User Prompt:', prompt);
 
-    const { text: translatedText } = await generateText({
+    // streamText reports failures through onError rather than by throwing
+    // from the stream, so they are rethrown once it ends.
+    let streamError: unknown = null;
+    const result = streamText({
       model: lmstudio(config.localLlmModel),
       prompt,
       system: prompts.translation.system,
+      abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
     });
 
+    let translatedText = '';
+    for await (const delta of result.textStream) {
+      translatedText += delta;
+      onText?.(translatedText);
+    }
+    if (streamError) {
+      throw streamError;
+    }
+    abortSignal?.throwIfAborted();
+
     console.log('=== LLM Response ===');
     console.log('Translated Text:', translatedText);
 
@@ -54,6 +113,11 @@ export async function translateText({
       translatedText: translatedText.trim(),
     };
   } catch (error) {
+    if (abortSignal?.aborted) {
+      const reason = abortSignal.reason;
+      const timedOut = reason instanceof DOMException && reason.name === 'TimeoutError';
+      return { translatedText: '', error: timedOut ? reason.message : 'Translation cancelled' };
+    }
     console.error('Translation error:', error);
     return {
       translatedText: '',
@@ -1,3 +1,5 @@
+import { TypedEventEmitter } from '@/lib/event-emitter';
+
 interface TTSMessage {
   type: 'voices' | 'voice_changed' | 'language_changed' | 'synthesis_started' | 'audio_chunk' | 'synthesis_completed' | 'error';
   voice?: string;
@@ -15,7 +17,14 @@ interface TTSQueueItem {
   reject: (error: Error) => void;
 }
 
-export class TTSService {
+export interface TTSServiceEvents {
+  /** Speech started coming out of the speakers. */
+  playback_start: void;
+  /** The playback queue ran dry; more speech may follow after synthesis. */
+  playback_end: void;
+}
+
+export class TTSService extends TypedEventEmitter<TTSServiceEvents> {
   private ws: WebSocket | null = null;
   private audioContext: AudioContext | null = null;
   private audioQueue: AudioBuffer[] = [];
@@ -25,7 +34,9 @@ export class TTSService {
   private textQueue: TTSQueueItem[] = [];
   private isProcessing = false;
 
-  constructor(private wsUrl: string) {}
+  constructor(private wsUrl: string) {
+    super('[TTS]');
+  }
 
   private getVoiceForLanguage(languageCode: string): string {
     const voiceMap: Record<string, string> = {
@@ -192,12 +203,12 @@ export class TTSService {
   private playNextChunk() {
     if (this.audioQueue.length === 0) {
       console.log('[TTS] Audio queue empty, playback finished');
-      this.isPlaying = false;
+      this.setPlaying(false);
       return;
     }
 
     console.log('[TTS] Playing chunk, queue length:', this.audioQueue.length);
-    this.isPlaying = true;
+    this.setPlaying(true);
     const audioBuffer = this.audioQueue.shift()!;
     const source = this.audioContext!.createBufferSource();
     source.buffer = audioBuffer;
@@ -212,6 +223,18 @@ export class TTSService {
     source.start(0);
   }
 
+  private setPlaying(playing: boolean) {
+    if (playing === this.isPlaying) {
+      return;
+    }
+    this.isPlaying = playing;
+    this.emit(playing ? 'playback_start' : 'playback_end', undefined);
+  }
+
+  get playing(): boolean {
+    return this.isPlaying;
+  }
+
   async setVoice(voice: string): Promise<void> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       throw new Error('TTS WebSocket not connected');
@@ -322,7 +345,7 @@ export class TTSService {
     }
     this.audioQueue = [];
     this.textQueue = [];
-    this.isPlaying = false;
+    this.setPlaying(false);
     this.isProcessing = false;
   }
 
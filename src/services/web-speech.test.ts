@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EarsFinalMessage, EarsWordMessage } from './ears';
+import { WebSpeechRecognizer } from './web-speech';
+
+/** Stand-in for the browser's SpeechRecognition that the tests feed results to. */
+class FakeRecognition {
+  static latest: FakeRecognition;
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onend: (() => void) | null = null;
+  // Transcript and isFinal of every result so far in this run.
+  results: [string, boolean][] = [];
+
+  constructor() {
+    FakeRecognition.latest = this;
+  }
+
+  start() {}
+  stop() {}
+  abort() {}
+
+  /** Replaces the latest result, as browsers do while an utterance is interim. */
+  hear(transcript: string, isFinal = false) {
+    const last = this.results[this.results.length - 1];
+    const index = last && !last[1] ? this.results.length - 1 : this.results.length;
+    this.results[index] = [transcript, isFinal];
+    const results = this.results.map(([text, final]) => Object.assign([{ transcript: text }], { isFinal: final }));
+    this.onresult?.({ resultIndex: index, results });
+  }
+}
+
+const setup = () => {
+  const recognizer = new WebSpeechRecognizer();
+  const words: EarsWordMessage[] = [];
+  const finals: EarsFinalMessage[] = [];
+  recognizer.on('word', message => words.push(message));
+  recognizer.on('final', message => finals.push(message));
+  recognizer.connect();
+  recognizer.start('en');
+  return { recognizer, words, finals, recognition: FakeRecognition.latest };
+};
+
+describe('WebSpeechRecognizer', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { SpeechRecognition: FakeRecognition });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('only emits the words that changed since the previous interim result', () => {
+    const { words, recognition } = setup();
+    recognition.hear('hello');
+    recognition.hear('hello there');
+    recognition.hear('hello their friend');
+
+    expect(words.map(message => message.word)).toEqual(['hello', 'there', 'their', 'friend']);
+    // A revised word keeps its timestamp, so it replaces the earlier one.
+    expect(words[2].start_time).toBe(words[1].start_time);
+  });
+
+  it('stamps the final words with the times of their interim words', () => {
+    const { words, finals, recognition } = setup();
+    recognition.hear('good morning');
+    recognition.hear('good morning everyone', true);
+
+    expect(finals).toHaveLength(1);
+    expect(finals[0].text).toBe('good morning everyone');
+    expect(finals[0].words!.slice(0, 2).map(word => word.start_time)).toEqual(words.map(message => message.start_time));
+  });
+
+  it('starts diffing afresh for the next utterance', () => {
+    const { words, recognition } = setup();
+    recognition.hear('yes', true);
+    recognition.hear('yes');
+
+    expect(words.map(message => message.word)).toEqual(['yes']);
+  });
+});
@@ -0,0 +1,218 @@
+import { TypedEventEmitter } from '@/lib/event-emitter';
+import type { EarsWord } from '@/services/ears';
+import type { SpeechRecognizer, SpeechRecognizerEvents } from '@/services/speech-recognizer';
+
+// The Web Speech API is not part of TypeScript's DOM lib yet.
+interface SpeechRecognitionAlternative {
+  transcript: string;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionEvent {
+  readonly resultIndex: number;
+  readonly results: { readonly length: number; [index: number]: SpeechRecognitionResult };
+}
+
+interface SpeechRecognitionErrorEvent {
+  readonly error: string;
+}
+
+interface BrowserSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const scope = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+// Errors that only mean "nothing was said" or "we stopped it ourselves".
+const BENIGN_ERRORS = new Set(['no-speech', 'aborted']);
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture']);
+
+/**
+ * Recognizer backed by the browser's Web Speech API. The browser opens the
+ * microphone itself, so `sendAudio` is not used. Word timings are not
+ * reported by the API; each word is stamped with the session time at which
+ * it first appeared, which is close enough for click-to-seek.
+ */
+export class WebSpeechRecognizer extends TypedEventEmitter<SpeechRecognizerEvents> implements SpeechRecognizer {
+  readonly acceptsAudio = false;
+  readonly bufferedAmount = 0;
+  private connected = false;
+  private recognition: BrowserSpeechRecognition | null = null;
+  private active = false;
+  private language = 'en';
+  private sessionStart = 0;
+  private lastWordTime = -1;
+  // Browsers end recognition after a pause or a minute; the result list
+  // starts over on every restart, hence the run counter in the keys.
+  private run = 0;
+  private wordTimes = new Map<string, number[]>();
+  // Interim words last emitted per result, so only changed words are re-sent.
+  private interimWords = new Map<string, string[]>();
+
+  constructor() {
+    super('[WebSpeech]');
+  }
+
+  connect() {
+    if (!getSpeechRecognition()) {
+      console.warn('[WebSpeech] Speech recognition is not supported in this browser');
+      this.emit('status', { state: 'failed' });
+      return;
+    }
+    this.connected = true;
+    this.emit('status', { state: 'connected' });
+  }
+
+  disconnect() {
+    this.active = false;
+    this.recognition?.abort();
+    this.recognition = null;
+    this.connected = false;
+    this.emit('status', { state: 'disconnected' });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  start(lang: string): boolean {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!this.connected || !SpeechRecognition) {
+      return false;
+    }
+
+    this.recognition?.abort();
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.onresult = (event) => this.handleResult(event);
+    recognition.onerror = (event) => this.handleError(event);
+    recognition.onend = () => this.handleEnd(recognition);
+
+    this.recognition = recognition;
+    this.language = lang;
+    this.active = true;
+    this.sessionStart = performance.now();
+    this.lastWordTime = -1;
+    this.wordTimes.clear();
+    this.interimWords.clear();
+    this.begin(recognition);
+    return true;
+  }
+
+  stop(): boolean {
+    this.active = false;
+    // stop() rather than abort() so the browser still delivers the final result.
+    this.recognition?.stop();
+    return this.connected;
+  }
+
+  setLanguage(lang: string): boolean {
+    this.language = lang;
+    if (this.active) {
+      // The language only applies to the next run; handleEnd starts it.
+      this.recognition?.stop();
+    }
+    return this.connected;
+  }
+
+  sendAudio(): boolean {
+    return false;
+  }
+
+  private begin(recognition: BrowserSpeechRecognition) {
+    recognition.lang = this.language;
+    this.run += 1;
+    try {
+      recognition.start();
+    } catch (error) {
+      console.error('[WebSpeech] Failed to start recognition:', error);
+      this.active = false;
+      this.emit('error', { type: 'error', message: 'Speech recognition could not be started' });
+    }
+  }
+
+  private handleEnd(recognition: BrowserSpeechRecognition) {
+    if (this.active && this.recognition === recognition) {
+      this.begin(recognition);
+    }
+  }
+
+  private handleError(event: SpeechRecognitionErrorEvent) {
+    if (BENIGN_ERRORS.has(event.error)) {
+      return;
+    }
+    console.error('[WebSpeech] Recognition error:', event.error);
+    if (FATAL_ERRORS.has(event.error)) {
+      this.active = false;
+    }
+    this.emit('error', { type: 'error', message: event.error });
+  }
+
+  private handleResult(event: SpeechRecognitionEvent) {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      const transcript = result[0]?.transcript.trim() ?? '';
+      const key = `${this.run}:${i}`;
+      const words = transcript.split(/\s+/).filter(Boolean);
+      const times = this.wordTimes.get(key) ?? [];
+      while (times.length < words.length) {
+        times.push(this.nextWordTime());
+      }
+      this.wordTimes.set(key, times);
+
+      if (result.isFinal) {
+        this.wordTimes.delete(key);
+        this.interimWords.delete(key);
+        if (!transcript) {
+          continue;
+        }
+        const now = this.nextWordTime();
+        const timedWords: EarsWord[] = words.map((word, index) => ({
+          word,
+          start_time: times[index],
+          end_time: times[index + 1] ?? now,
+        }));
+        this.emit('final', { type: 'final', text: transcript, words: timedWords });
+      } else {
+        // Every interim result repeats the whole transcript so far; words
+        // that did not change were already sent.
+        const previous = this.interimWords.get(key) ?? [];
+        words.forEach((word, index) => {
+          if (word !== previous[index]) {
+            this.emit('word', { type: 'word', word, start_time: times[index], end_time: null });
+          }
+        });
+        this.interimWords.set(key, words);
+      }
+    }
+  }
+
+  /** Session time in seconds, kept strictly increasing so it can key words. */
+  private nextWordTime(): number {
+    const time = Math.max((performance.now() - this.sessionStart) / 1000, this.lastWordTime + 0.001);
+    this.lastWordTime = time;
+    return time;
+  }
+}
@@ -0,0 +1,233 @@
+import { DEFAULT_VAD_SETTINGS, SpeechGate } from '@/audio/vad';
+import { EARS_SAMPLE_RATE } from '@/audio/file-source';
+import { encodeWav, floatTo16BitPcm } from '@/audio/wav';
+import { TypedEventEmitter } from '@/lib/event-emitter';
+import type { EarsWord } from '@/services/ears';
+import type { SpeechRecognizer, SpeechRecognizerEvents } from '@/services/speech-recognizer';
+
+export interface WhisperHttpOptions {
+  /** OpenAI-compatible API root, e.g. `http://localhost:8080/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Silence that ends an utterance. */
+  silenceMs?: number;
+  /** Utterances longer than this are sent without waiting for a pause. */
+  maxUtteranceMs?: number;
+}
+
+interface TranscriptionResponse {
+  text?: string;
+  words?: { word: string; start: number; end: number }[];
+  segments?: { start: number; end: number; text: string }[];
+}
+
+/**
+ * Recognizer for servers implementing `POST /v1/audio/transcriptions`, such
+ * as whisper.cpp's server or faster-whisper-server. Incoming audio is split
+ * into utterances with the same speech gate used for VAD, and each utterance
+ * is uploaded as a WAV file once the speaker pauses. Results arrive as one
+ * `final` per utterance; there are no live partial words.
+ */
+export class WhisperHttpRecognizer extends TypedEventEmitter<SpeechRecognizerEvents> implements SpeechRecognizer {
+  readonly acceptsAudio = true;
+  readonly bufferedAmount = 0;
+  private readonly silenceMs: number;
+  private readonly maxUtteranceSamples: number;
+  private readonly gate: SpeechGate;
+  private connected = false;
+  private language: string | null = null;
+  private utterance: Float32Array[] = [];
+  private utteranceSamples = 0;
+  private utteranceStart = 0;
+  private receivedSamples = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private requests: Promise<void> = Promise.resolve();
+  // Bumped on disconnect so responses to earlier requests are dropped.
+  private generation = 0;
+
+  constructor(private options: WhisperHttpOptions) {
+    super('[Whisper]');
+    this.silenceMs = options.silenceMs ?? 700;
+    this.maxUtteranceSamples = ((options.maxUtteranceMs ?? 15000) / 1000) * EARS_SAMPLE_RATE;
+    this.gate = new SpeechGate({ ...DEFAULT_VAD_SETTINGS, enabled: true, hangoverMs: this.silenceMs }, EARS_SAMPLE_RATE);
+  }
+
+  /** HTTP needs no connection; this only marks the recognizer as usable. */
+  connect() {
+    this.connected = true;
+    this.emit('status', { state: 'connected' });
+  }
+
+  disconnect() {
+    this.connected = false;
+    this.generation += 1;
+    this.language = null;
+    this.resetUtterance();
+    this.emit('status', { state: 'disconnected' });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  start(lang: string): boolean {
+    if (!this.connected) {
+      return false;
+    }
+    this.language = lang;
+    this.receivedSamples = 0;
+    this.gate.reset();
+    this.resetUtterance();
+    return true;
+  }
+
+  /** Sends whatever has been said since the last pause. */
+  stop(): boolean {
+    this.flush();
+    this.language = null;
+    return this.connected;
+  }
+
+  setLanguage(lang: string): boolean {
+    if (this.language !== null && this.language !== lang) {
+      // The utterance so far was spoken in the previous language.
+      this.flush();
+      this.language = lang;
+    }
+    return this.connected;
+  }
+
+  sendAudio(samples: Float32Array): boolean {
+    if (!this.connected) {
+      return false;
+    }
+
+    const frameStart = this.receivedSamples;
+    this.receivedSamples += samples.length;
+
+    const { isSpeech, frames } = this.gate.process(samples);
+    if (frames.length > 0) {
+      if (this.utteranceSamples === 0) {
+        const preRoll = frames.reduce((total, frame) => total + frame.length, 0) - samples.length;
+        this.utteranceStart = Math.max(0, frameStart - preRoll) / EARS_SAMPLE_RATE;
+      }
+      frames.forEach(frame => {
+        this.utterance.push(frame);
+        this.utteranceSamples += frame.length;
+      });
+    }
+
+    if ((!isSpeech && this.utteranceSamples > 0) || this.utteranceSamples >= this.maxUtteranceSamples) {
+      this.flush();
+    } else if (this.utteranceSamples > 0) {
+      // With the app's own VAD enabled, silence is never sent, so a pause
+      // shows up as audio stopping rather than as quiet frames.
+      this.restartIdleTimer();
+    }
+    return true;
+  }
+
+  private restartIdleTimer() {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.flush();
+    }, this.silenceMs);
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private resetUtterance() {
+    this.clearIdleTimer();
+    this.utterance = [];
+    this.utteranceSamples = 0;
+  }
+
+  private flush() {
+    if (this.utteranceSamples === 0) {
+      this.clearIdleTimer();
+      return;
+    }
+
+    const samples = new Float32Array(this.utteranceSamples);
+    let offset = 0;
+    this.utterance.forEach(frame => {
+      samples.set(frame, offset);
+      offset += frame.length;
+    });
+    const startTime = this.utteranceStart;
+    const language = this.language;
+    const generation = this.generation;
+    this.resetUtterance();
+
+    // Requests run one at a time so results arrive in speaking order.
+    this.requests = this.requests.then(() => this.transcribe(samples, startTime, language, generation));
+  }
+
+  private async transcribe(samples: Float32Array, startTime: number, language: string | null, generation: number) {
+    const body = new FormData();
+    body.append('file', encodeWav([floatTo16BitPcm(samples)], EARS_SAMPLE_RATE), 'utterance.wav');
+    body.append('model', this.options.model);
+    if (language) {
+      body.append('language', language);
+    }
+    body.append('response_format', 'verbose_json');
+    body.append('timestamp_granularities[]', 'word');
+
+    try {
+      const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : undefined,
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result: TranscriptionResponse = await response.json();
+      const text = result.text?.trim();
+      if (generation !== this.generation || !text) {
+        return;
+      }
+
+      const duration = samples.length / EARS_SAMPLE_RATE;
+      this.emit('final', { type: 'final', text, words: this.toWords(result, text, startTime, duration) });
+    } catch (error) {
+      console.error('[Whisper] Transcription failed:', error);
+      if (generation === this.generation) {
+        this.emit('error', { type: 'error', message: error instanceof Error ? error.message : 'Transcription failed' });
+      }
+    }
+  }
+
+  /**
+   * Uses word timestamps when the server returns them, otherwise spreads the
+   * words of each segment (or of the whole text) evenly across its span.
+   */
+  private toWords(result: TranscriptionResponse, text: string, startTime: number, duration: number): EarsWord[] {
+    if (result.words?.length) {
+      return result.words.map(word => ({
+        word: word.word.trim(),
+        start_time: startTime + word.start,
+        end_time: startTime + word.end,
+      }));
+    }
+
+    const spans = result.segments?.length ? result.segments : [{ start: 0, end: duration, text }];
+    return spans.flatMap(span => {
+      const words = span.text.trim().split(/\s+/).filter(Boolean);
+      const step = (span.end - span.start) / Math.max(1, words.length);
+      return words.map((word, index) => ({
+        word,
+        start_time: startTime + span.start + index * step,
+        end_time: startTime + span.start + (index + 1) * step,
+      }));
+    });
+  }
+}